@@ -1,10 +1,68 @@
 export interface EnvironmentConfig {
   HEDERA_NETWORK?: string;
+  HEDERA_MIRROR_NODE_URL?: string;
+  HEDERA_MIRROR_GRPC_URL?: string;
+  HEDERA_CONSENSUS_NODE_URL?: string;
+  HEDERA_CONSENSUS_NODE_ACCOUNT_ID?: string;
   HEDERA_ACCOUNT_ID?: string;
   HEDERA_PRIVATE_KEY?: string;
   OPENAI_API_KEY?: string;
   BALANCER_ALERT_TOPIC?: string;
   DASHBOARD_ALERT_TOPIC?: string;
+  ALERT_ALLOWED_PUBLIC_KEYS?: string;
+  ALERT_ALLOWED_PAYER_ACCOUNTS?: string;
+  ALERT_REPORT_REJECTIONS?: string;
+  ALERT_SIGNATURE_WINDOW_MS?: string;
+  ALERT_ACCEPTED_FILE?: string;
+  DASHBOARD_MAX_CHUNKS?: string;
+  DASHBOARD_HEARTBEAT_INTERVAL_MS?: string;
+  DRIFT_POLL_INTERVAL_MS?: string;
+  DRIFT_POLL_CRON?: string;
+  DRIFT_POLL_JITTER_MS?: string;
+  REBALANCE_VERIFY_MAX_RETRIES?: string;
+  PREFLIGHT_HBAR_FEE_RESERVE?: string;
+  RISK_MAX_MOVE_PER_TOKEN?: string;
+  RISK_MAX_MOVE_PERCENT?: string;
+  RISK_MAX_TX_PER_HOUR?: string;
+  RISK_DAILY_NOTIONAL_CAP?: string;
+  RISK_MAX_RUN_TREASURY_PERCENT?: string;
+  RISK_REFERENCE_PRICES?: string;
+  RISK_VIOLATION_ACTION?: string;
+  RISK_LEDGER_FILE?: string;
+  APPROVAL_THRESHOLD_PERCENT?: string;
+  APPROVAL_THRESHOLD_NOTIONAL?: string;
+  APPROVAL_TOPIC?: string;
+  APPROVAL_DIR?: string;
+  APPROVAL_PUBLIC_KEYS?: string;
+  APPROVAL_REQUIRED_SIGNATURES?: string;
+  APPROVAL_TIMEOUT_MS?: string;
+  APPROVAL_POLL_INTERVAL_MS?: string;
+  BALANCER_SIGNING_MODE?: string;
+  SCHEDULE_COSIGNER_KEYS?: string;
+  SCHEDULE_EXPIRY_SECONDS?: string;
+  SCHEDULE_WAIT_TIMEOUT_MS?: string;
+  SCHEDULE_POLL_INTERVAL_MS?: string;
+  RUN_HISTORY_FILE?: string;
+  STEP_JOURNAL_FILE?: string;
+  TX_RETRY_MAX_ATTEMPTS?: string;
+  TX_RETRY_BASE_DELAY_MS?: string;
+  TX_RETRY_MAX_DELAY_MS?: string;
+  CONTRACT_GAS_MARGIN_PERCENT?: string;
+  CONTRACT_GAS_FALLBACK?: string;
+  CONTRACT_GAS_MAX?: string;
+  CONTRACT_MAX_FEE_HBAR?: string;
+  CONTRACT_GAS_ESTIMATE_URL?: string;
+  CONTRACT_QUERY_GAS?: string;
+  LOG_LEVEL?: string;
+  LOG_FORMAT?: string;
+  LOG_NOISE_FILTERS?: string;
+  STATUS_PORT?: string;
+  STATUS_HOST?: string;
+  SUBSCRIPTION_INITIAL_BACKOFF_MS?: string;
+  SUBSCRIPTION_MAX_BACKOFF_MS?: string;
+  SUBSCRIPTION_STALL_TIMEOUT_MS?: string;
+  SUBSCRIPTION_PING_INTERVAL_MS?: string;
+  SHUTDOWN_DRAIN_TIMEOUT_MS?: string;
   LYNX_CONTRACT_ID?: string;
   CONTRACT_SAUCE_TOKEN?: string;
   CONTRACT_LYNX_TOKEN?: string;
@@ -13,5 +71,6 @@ export interface EnvironmentConfig {
   CONTRACT_JAM_TOKEN?: string;
   CONTRACT_HEADSTART_TOKEN?: string;
   TREASURY_ACCOUNT_ID?: string;
+  BALANCER_EXECUTION_MODE?: string;
 }
 
@@ -0,0 +1,310 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Client, PublicKey, Timestamp, TopicMessageQuery, TopicMessageSubmitTransaction } from '@hashgraph/sdk';
+import { ContractState } from '../utils/contract-state-manager.js';
+import { ContractStateSnapshot, snapshotContractState } from '../utils/dashboard-publisher.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import {
+  ApprovalRequest,
+  createApprovalRequest,
+  findDecisionSigner,
+  parseApprovalDecision
+} from '../utils/approval-protocol.js';
+import { PlannedStep } from './rebalance-planner.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('approval');
+
+/**
+ * When approval is required, where requests go and who may sign them
+ */
+export interface ApprovalConfig {
+  thresholdPercent?: number; // a step moving more than this % of the larger of current and required balance
+  thresholdNotional?: number; // a step worth more than this at reference prices
+  topicId?: string;
+  directory?: string;
+  timeoutMs: number;
+  pollIntervalMs: number;
+  approverKeys: PublicKey[];
+  requiredSignatures: number;
+}
+
+/**
+ * Result of waiting for approval of one plan
+ */
+export interface ApprovalOutcome {
+  status: 'approved' | 'rejected' | 'expired' | 'cancelled';
+  planHash: string;
+  approvers: string[];
+  reason?: string;
+}
+
+/**
+ * Approval Workflow
+ * Plans with a step above the approval threshold are published, with their contract state
+ * snapshot, to APPROVAL_TOPIC or APPROVAL_DIR. Execution waits until enough allowed keys have
+ * signed an APPROVE decision for the plan hash; a signed REJECT, the timeout or a shutdown
+ * ends the wait.
+ */
+export class ApprovalWorkflow {
+  constructor(
+    private readonly config: ApprovalConfig,
+    private readonly client: Client,
+    private readonly context: { agentAccountId: string; contractId: string },
+    private readonly notional: (tokenSymbol: string, amount: TokenAmount) => number | undefined
+  ) {
+    if (!config.topicId && !config.directory) {
+      throw new Error('Approval workflow needs APPROVAL_TOPIC or APPROVAL_DIR');
+    }
+    if (config.approverKeys.length < config.requiredSignatures) {
+      throw new Error(`APPROVAL_REQUIRED_SIGNATURES is ${config.requiredSignatures} but only ${config.approverKeys.length} approver key(s) are configured`);
+    }
+  }
+
+  /**
+   * Read the APPROVAL_* variables. Returns undefined when no threshold is configured.
+   * Notional thresholds are valued with the risk policy's reference prices. Invalid values throw:
+   * a NaN threshold would never be exceeded and silently disable approvals.
+   */
+  static fromEnvironment(
+    client: Client,
+    context: { agentAccountId: string; contractId: string },
+    notional: (tokenSymbol: string, amount: TokenAmount) => number | undefined,
+    env: NodeJS.ProcessEnv = process.env
+  ): ApprovalWorkflow | undefined {
+    const thresholdPercent = parsePositive(env.APPROVAL_THRESHOLD_PERCENT, 'APPROVAL_THRESHOLD_PERCENT');
+    const thresholdNotional = parsePositive(env.APPROVAL_THRESHOLD_NOTIONAL, 'APPROVAL_THRESHOLD_NOTIONAL');
+    if (thresholdPercent === undefined && thresholdNotional === undefined) {
+      return undefined;
+    }
+
+    const approverKeys = (env.APPROVAL_PUBLIC_KEYS || '').split(',').map(key => key.trim()).filter(Boolean).map(key => {
+      try {
+        return PublicKey.fromString(key);
+      } catch {
+        throw new Error(`Invalid public key in APPROVAL_PUBLIC_KEYS: ${key}`);
+      }
+    });
+
+    return new ApprovalWorkflow({
+      thresholdPercent,
+      thresholdNotional,
+      topicId: env.APPROVAL_TOPIC || undefined,
+      directory: env.APPROVAL_TOPIC ? undefined : env.APPROVAL_DIR || undefined,
+      timeoutMs: parsePositiveInteger(env.APPROVAL_TIMEOUT_MS, 'APPROVAL_TIMEOUT_MS', 3600000),
+      pollIntervalMs: parsePositiveInteger(env.APPROVAL_POLL_INTERVAL_MS, 'APPROVAL_POLL_INTERVAL_MS', 5000),
+      approverKeys,
+      requiredSignatures: parsePositiveInteger(env.APPROVAL_REQUIRED_SIGNATURES, 'APPROVAL_REQUIRED_SIGNATURES', 1)
+    }, client, context, notional);
+  }
+
+  /**
+   * Why a plan needs approval, or undefined when it may run automatically
+   */
+  approvalReason(steps: PlannedStep[]): string | undefined {
+    const reasons: string[] = [];
+
+    for (const step of steps) {
+      if (this.config.thresholdPercent !== undefined) {
+        const base = step.currentBalance.compare(step.requiredBalance) > 0 ? step.currentBalance : step.requiredBalance;
+        const percent = base.isZero() ? 100 : (step.amount.toNumber() / base.toNumber()) * 100;
+        if (percent > this.config.thresholdPercent) {
+          reasons.push(`${step.tokenSymbol} ${step.action} of ${step.amount} moves ${percent.toFixed(2)}% (threshold ${this.config.thresholdPercent}%)`);
+          continue;
+        }
+      }
+
+      if (this.config.thresholdNotional !== undefined) {
+        const value = this.notional(step.tokenSymbol, step.amount);
+        if (value === undefined) {
+          reasons.push(`${step.tokenSymbol} has no reference price`);
+        } else if (value > this.config.thresholdNotional) {
+          reasons.push(`${step.tokenSymbol} ${step.action} worth ${value.toFixed(2)} (threshold ${this.config.thresholdNotional})`);
+        }
+      }
+    }
+
+    return reasons.length > 0 ? reasons.join('; ') : undefined;
+  }
+
+  /**
+   * Build the approval request for a plan (published by requestApproval)
+   */
+  createRequest(steps: PlannedStep[], state: ContractState, details: { runId: string; trigger: string; reason: string }): ApprovalRequest {
+    const createdAt = new Date();
+    return createApprovalRequest({
+      runId: details.runId,
+      agentAccountId: this.context.agentAccountId,
+      contractId: this.context.contractId,
+      trigger: details.trigger,
+      reason: details.reason,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + this.config.timeoutMs).toISOString(),
+      steps: steps.map(step => ({
+        tokenSymbol: step.tokenSymbol,
+        tokenId: step.tokenId,
+        action: step.action,
+        amount: step.amount.toHuman(),
+        amountSmallestUnits: step.amountSmallestUnits,
+        contractFunction: step.contractFunction
+      })),
+      state: snapshotContractState(state)
+    });
+  }
+
+  /**
+   * Publish a request and wait for the approval decisions
+   * @param signal aborting it cancels the wait (e.g. on shutdown)
+   */
+  async requestApproval(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalOutcome> {
+    await this.publishRequest(request);
+    logger.info(`✍️  Waiting for ${this.config.requiredSignatures} approval(s) of plan ${request.planHash} until ${request.expiresAt}`);
+    return this.waitForDecisions(request, signal);
+  }
+
+  describe(): string {
+    const thresholds = [
+      this.config.thresholdPercent !== undefined ? `> ${this.config.thresholdPercent}% per step` : undefined,
+      this.config.thresholdNotional !== undefined ? `> ${this.config.thresholdNotional} notional per step` : undefined
+    ].filter(Boolean).join(' or ');
+    const channel = this.config.topicId ? `topic ${this.config.topicId}` : `directory ${this.config.directory}`;
+    return `${thresholds} via ${channel}, ${this.config.requiredSignatures} of ${this.config.approverKeys.length} key(s), expires after ${this.config.timeoutMs}ms`;
+  }
+
+  private async publishRequest(request: ApprovalRequest): Promise<void> {
+    if (this.config.topicId) {
+      const responses = await new TopicMessageSubmitTransaction()
+        .setTopicId(this.config.topicId)
+        .setMaxChunks(20)
+        .setMessage(JSON.stringify(request))
+        .executeAll(this.client);
+      await responses[responses.length - 1].getReceipt(this.client);
+      logger.info(`📨 Approval request for plan ${request.planHash} published to ${this.config.topicId}`);
+    } else {
+      mkdirSync(this.config.directory!, { recursive: true });
+      const path = join(this.config.directory!, `${request.planHash}.request.json`);
+      writeFileSync(path, JSON.stringify(request, null, 2));
+      logger.info(`📨 Approval request for plan ${request.planHash} written to ${path}`);
+    }
+  }
+
+  /**
+   * Collect signed decisions until the plan is approved, rejected, the request expires or the
+   * signal is aborted
+   */
+  private waitForDecisions(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalOutcome> {
+    return new Promise(resolve => {
+      const approvals = new Map<string, string>(); // signer public key -> approver account
+      const cleanups: Array<() => void> = [];
+      let settled = false;
+
+      const finish = (outcome: Omit<ApprovalOutcome, 'planHash' | 'approvers'>) => {
+        if (settled) return;
+        settled = true;
+        cleanups.forEach(cleanup => cleanup());
+        resolve({ ...outcome, planHash: request.planHash, approvers: [...approvals.values()] });
+      };
+
+      const onDecision = (contents: Uint8Array | string) => {
+        const parsed = parseApprovalDecision(contents);
+        if (!parsed.ok || parsed.decision.planHash !== request.planHash) {
+          return; // other plans, requests and unrelated messages
+        }
+
+        const decision = parsed.decision;
+        const signer = findDecisionSigner(decision, this.config.approverKeys);
+        if (!signer) {
+          logger.warn(`🚫 Ignoring ${decision.type} for plan ${request.planHash} from ${decision.approver}: signature does not match an approver key`);
+          return;
+        }
+
+        if (decision.type === 'REJECT') {
+          logger.info(`❌ Plan ${request.planHash} rejected by ${decision.approver}${decision.reason ? `: ${decision.reason}` : ''}`);
+          finish({ status: 'rejected', reason: decision.reason ? `Rejected by ${decision.approver}: ${decision.reason}` : `Rejected by ${decision.approver}` });
+          return;
+        }
+
+        approvals.set(signer.toStringDer(), decision.approver);
+        logger.info(`✅ Plan ${request.planHash} approved by ${decision.approver} (${approvals.size}/${this.config.requiredSignatures})`);
+        if (approvals.size >= this.config.requiredSignatures) {
+          finish({ status: 'approved' });
+        }
+      };
+
+      const timer = setTimeout(
+        () => finish({ status: 'expired', reason: `No approval before ${request.expiresAt} (${approvals.size}/${this.config.requiredSignatures} signature(s))` }),
+        Math.max(0, Date.parse(request.expiresAt) - Date.now())
+      );
+      cleanups.push(() => clearTimeout(timer));
+
+      if (signal) {
+        const onAbort = () => finish({ status: 'cancelled', reason: `Wait cancelled (${approvals.size}/${this.config.requiredSignatures} signature(s))` });
+        if (signal.aborted) {
+          onAbort();
+          return;
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+        cleanups.push(() => signal.removeEventListener('abort', onAbort));
+      }
+
+      if (this.config.topicId) {
+        // Start slightly before the request so decisions racing its consensus time are not missed
+        const handle = new TopicMessageQuery()
+          .setTopicId(this.config.topicId)
+          .setStartTime(Timestamp.fromDate(new Date(Date.parse(request.createdAt) - 60_000)))
+          .subscribe(
+            this.client,
+            (_message, error) => logger.error('❌ Approval topic subscription error', { error }),
+            message => onDecision(message.contents)
+          );
+        cleanups.push(() => handle.unsubscribe());
+      } else {
+        // Approvers drop signed decisions into the directory as <planHash>.<name>.decision.json
+        const seen = new Set<string>();
+        const poll = () => {
+          if (!existsSync(this.config.directory!)) return;
+          for (const name of readdirSync(this.config.directory!)) {
+            if (seen.has(name) || !name.startsWith(`${request.planHash}.`) || !name.endsWith('.decision.json')) continue;
+            seen.add(name);
+            onDecision(readFileSync(join(this.config.directory!, name), 'utf8'));
+          }
+        };
+        const interval = setInterval(poll, this.config.pollIntervalMs);
+        cleanups.push(() => clearInterval(interval));
+        poll();
+      }
+    });
+  }
+}
+
+/**
+ * Whether the contract state still matches the snapshot an approval was given for
+ */
+export function stateMatchesSnapshot(state: ContractState, snapshot: ContractStateSnapshot): boolean {
+  const current = snapshotContractState(state);
+  return current.lynxTotalSupply === snapshot.lynxTotalSupply
+    && current.assets.length === snapshot.assets.length
+    && current.assets.every((asset, index) => {
+      const approved = snapshot.assets[index];
+      return asset.symbol === approved.symbol && asset.ratio === approved.ratio && asset.balance === approved.balance;
+    });
+}
+
+function parsePositive(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return number;
+}
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback: number): number {
+  const number = parsePositive(value, name) ?? fallback;
+  if (!Number.isInteger(number)) {
+    throw new Error(`${name} must be a whole number, got "${value}"`);
+  }
+  return number;
+}
@@ -0,0 +1,104 @@
+import { Client, AccountInfoQuery, AccountId, TokenId } from '@hashgraph/sdk';
+import { TokenAmount } from '../utils/token-amount.js';
+import { PlannedStep, RebalancePlanner } from './rebalance-planner.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('preflight');
+
+/**
+ * Outcome of a deposit pre-flight check
+ */
+export interface PreflightResult {
+  decision: 'proceed' | 'partial' | 'skip';
+  step: PlannedStep | null; // the (possibly reduced) step to execute, null when skipped
+  reason?: string;
+}
+
+/**
+ * Deposit Pre-flight
+ * Checks, before a deposit is submitted, that the operator can actually fund it: operator and
+ * contract token associations, KYC and freeze status, the operator's token balance and HBAR for
+ * fees. Deposits the operator cannot fully fund are reduced to what is available or skipped.
+ */
+export class DepositPreflight {
+  private readonly feeReserve: TokenAmount;
+
+  constructor(
+    private client: Client,
+    private planner: RebalancePlanner,
+    private operatorAccountId: string,
+    private contractId: string,
+    feeReserveHbar: string = process.env.PREFLIGHT_HBAR_FEE_RESERVE || '2'
+  ) {
+    this.feeReserve = TokenAmount.fromHuman(feeReserveHbar, 8);
+  }
+
+  /**
+   * Check a deposit step; withdrawals are passed through unchanged
+   */
+  async check(step: PlannedStep): Promise<PreflightResult> {
+    if (step.action !== 'deposit') {
+      return { decision: 'proceed', step };
+    }
+
+    const operatorInfo = await new AccountInfoQuery()
+      .setAccountId(AccountId.fromString(this.operatorAccountId))
+      .execute(this.client);
+    const operatorHbar = TokenAmount.fromRaw(operatorInfo.balance.toTinybars(), 8);
+    const spendableHbar = operatorHbar.sub(this.feeReserve);
+
+    if (spendableHbar.raw <= 0n) {
+      return this.skip(step, `operator HBAR balance ${operatorHbar} does not cover the ${this.feeReserve} HBAR fee reserve`);
+    }
+
+    let available: TokenAmount;
+    if (step.tokenId === 'HBAR') {
+      available = spendableHbar;
+    } else {
+      const tokenId = TokenId.fromString(step.tokenId);
+
+      const operatorRelationship = operatorInfo.tokenRelationships.get(tokenId);
+      if (!operatorRelationship) {
+        return this.skip(step, `operator ${this.operatorAccountId} is not associated with ${step.tokenSymbol} (${step.tokenId})`);
+      }
+      if (operatorRelationship.isFrozen) {
+        return this.skip(step, `operator's ${step.tokenSymbol} account is frozen`);
+      }
+      if (operatorRelationship.isKycGranted === false) {
+        return this.skip(step, `operator has no KYC grant for ${step.tokenSymbol}`);
+      }
+
+      const contractInfo = await new AccountInfoQuery()
+        .setAccountId(AccountId.fromString(this.contractId))
+        .execute(this.client);
+      const contractRelationship = contractInfo.tokenRelationships.get(tokenId);
+      if (!contractRelationship) {
+        return this.skip(step, `contract ${this.contractId} is not associated with ${step.tokenSymbol} (${step.tokenId})`);
+      }
+      if (contractRelationship.isFrozen) {
+        return this.skip(step, `contract's ${step.tokenSymbol} account is frozen`);
+      }
+      if (contractRelationship.isKycGranted === false) {
+        return this.skip(step, `contract has no KYC grant for ${step.tokenSymbol}`);
+      }
+
+      available = TokenAmount.fromRaw(operatorRelationship.balance, step.amount.decimals);
+    }
+
+    if (available.compare(step.amount) >= 0) {
+      return { decision: 'proceed', step };
+    }
+    if (available.raw <= 0n) {
+      return this.skip(step, `operator holds no spendable ${step.tokenSymbol}`);
+    }
+
+    const reason = `operator can fund only ${available} of ${step.amount} ${step.tokenSymbol}`;
+    logger.warn(`⚠️  Pre-flight: ${reason} - reducing the deposit`);
+    return { decision: 'partial', step: this.planner.resizeStep(step, available), reason };
+  }
+
+  private skip(step: PlannedStep, reason: string): PreflightResult {
+    logger.warn(`⏭️  Pre-flight: skipping ${step.tokenSymbol} deposit - ${reason}`);
+    return { decision: 'skip', step: null, reason };
+  }
+}
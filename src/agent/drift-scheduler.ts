@@ -0,0 +1,121 @@
+import { CronSchedule } from '../utils/cron-schedule.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('agent');
+
+/**
+ * Drift polling configuration: a fixed interval or a cron expression, plus random jitter
+ */
+export interface DriftScheduleConfig {
+  intervalMs?: number;
+  cron?: CronSchedule;
+  jitterMs: number;
+}
+
+/**
+ * Drift Scheduler
+ * Periodically runs a drift check alongside the HCS subscription, so LYNX mints and burns
+ * (which change the required balances without any alert) are picked up. Each tick is delayed
+ * by a random jitter, and a tick is skipped while a rebalancing run is active.
+ */
+export class DriftScheduler {
+  private timer?: NodeJS.Timeout;
+  private nextAt?: Date;
+  private stopped = true;
+
+  constructor(
+    private readonly config: DriftScheduleConfig,
+    private readonly check: () => Promise<void>,
+    private readonly isBusy: () => boolean
+  ) {
+    if (!config.cron && (!config.intervalMs || config.intervalMs <= 0)) {
+      throw new Error('Drift scheduler needs a positive interval or a cron expression');
+    }
+  }
+
+  /**
+   * Read DRIFT_POLL_CRON / DRIFT_POLL_INTERVAL_MS / DRIFT_POLL_JITTER_MS.
+   * Returns undefined when polling is not configured. The cron expression is parsed and
+   * evaluated once here, so an invalid or never-matching one fails at startup.
+   */
+  static configFromEnvironment(env: NodeJS.ProcessEnv = process.env): DriftScheduleConfig | undefined {
+    const cron = env.DRIFT_POLL_CRON?.trim();
+    const intervalMs = parseInt(env.DRIFT_POLL_INTERVAL_MS || '0');
+    if (!(intervalMs >= 0)) {
+      throw new Error(`DRIFT_POLL_INTERVAL_MS must be a non-negative number of milliseconds, got "${env.DRIFT_POLL_INTERVAL_MS}"`);
+    }
+    if (!cron && intervalMs === 0) {
+      return undefined;
+    }
+
+    // A NaN delay would make setTimeout fire immediately, polling the contract back to back
+    const jitterMs = parseInt(env.DRIFT_POLL_JITTER_MS || '30000');
+    if (!(jitterMs >= 0)) {
+      throw new Error(`DRIFT_POLL_JITTER_MS must be a non-negative number of milliseconds, got "${env.DRIFT_POLL_JITTER_MS}"`);
+    }
+
+    let schedule: CronSchedule | undefined;
+    if (cron) {
+      schedule = new CronSchedule(cron);
+      schedule.next();
+    }
+
+    return {
+      cron: schedule,
+      intervalMs: cron ? undefined : intervalMs,
+      jitterMs
+    };
+  }
+
+  start(): void {
+    this.stopped = false;
+    logger.info(`⏲️  Drift polling enabled (${this.config.cron ? `cron "${this.config.cron.expression}"` : `every ${this.config.intervalMs}ms`}, jitter up to ${this.config.jitterMs}ms)`);
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.nextAt = undefined;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * When the next drift check is due, or undefined while a check is running or after stop()
+   */
+  nextCheckAt(): Date | undefined {
+    return this.nextAt;
+  }
+
+  private scheduleNext(): void {
+    if (this.stopped) return;
+
+    const baseDelay = this.config.cron
+      ? this.config.cron.next().getTime() - Date.now()
+      : this.config.intervalMs!;
+    const jitter = Math.floor(Math.random() * Math.max(0, this.config.jitterMs));
+    const delay = Math.max(0, baseDelay) + jitter;
+
+    this.nextAt = new Date(Date.now() + delay);
+    logger.info(`⏲️  Next drift check at ${this.nextAt.toISOString()}`);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = undefined;
+    this.nextAt = undefined;
+    try {
+      if (this.isBusy()) {
+        logger.info('⏭️  Skipping drift check - a rebalancing run is active');
+      } else {
+        await this.check();
+      }
+    } catch (error) {
+      logger.error('❌ Drift check failed', { error });
+    } finally {
+      this.scheduleNext();
+    }
+  }
+}
@@ -1,17 +1,48 @@
 import { config } from 'dotenv';
+import { randomUUID } from 'crypto';
 import { EnvironmentConfig } from './agent-config.js';
 import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
-import { Client, TopicMessageQuery, Timestamp } from '@hashgraph/sdk';
+import { AccountBalanceQuery, Client, Timestamp } from '@hashgraph/sdk';
 import { HederaLangchainToolkit, AgentMode, coreHTSPlugin, coreAccountPlugin, coreConsensusPlugin, coreQueriesPlugin } from 'hedera-agent-kit';
 import { TokenTransferTool } from '../tools/token-transfer-tool.js';
 import { HbarWithdrawalTool } from '../tools/hbar-withdrawal-tool.js';
 import { TokenWithdrawalTool } from '../tools/token-withdrawal-tool.js';
 
 import { ContractRatioTool, TokenSupplyTool } from '../tools/contract-ratio-tool.js';
-import { TokenRatioTool } from '../tools/token-ratio-tool.js';
-import { ContractStateManager, ContractState } from '../utils/contract-state-manager.js';
+import { TokenRatioTool, analyzeTokenRatio } from '../tools/token-ratio-tool.js';
+import { RebalanceExecutor } from './rebalance-executor.js';
+import { RebalanceTriggerQueue, RebalanceTrigger } from './rebalance-trigger-queue.js';
+import { DriftScheduler } from './drift-scheduler.js';
+import { verifyStep } from './step-verification.js';
+import { DepositPreflight } from './deposit-preflight.js';
+import { RiskPolicy } from './risk-policy.js';
+import { ApprovalWorkflow, stateMatchesSnapshot } from './approval-workflow.js';
+import { RebalancePlanner, RebalancePlan, PlannedStep } from './rebalance-planner.js';
+import { TreasuryTransactions } from '../utils/treasury-transactions.js';
+import { ScheduledExecution } from '../utils/scheduled-execution.js';
+import { ContractState, ContractStateManager, fetchBasketRatios } from '../utils/contract-state-manager.js';
+import { DashboardPublisher, ContractStateSnapshot, TokenAdjustment, snapshotContractState } from '../utils/dashboard-publisher.js';
+import { TokenRegistry } from '../utils/token-registry.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import { RunHistoryStore, RunRecord, RUN_HISTORY_VERSION, describePlan, totalFee, totalGasUsed } from '../utils/run-history.js';
+import { createHederaClient, getHederaNetwork } from '../utils/hedera-client.js';
+import { parseAlertMessage, AlertMessage, RatioUpdateAlert } from '../utils/alert-protocol.js';
+import { AlertAuthenticator } from '../utils/alert-authenticator.js';
+import { AlertCursor, AlertCursorStore } from '../utils/alert-cursor.js';
+import { ReceivedTopicMessage, fetchTopicMessagesSince, parseConsensusTimestamp } from '../utils/topic-messages.js';
+import { Logger, withRunContext } from '../utils/logger.js';
+import { AgentMetrics } from '../utils/agent-metrics.js';
+import { HealthReport, StatusServer } from '../utils/status-server.js';
+import { SubscriptionStatus, SupervisedSubscription } from '../utils/supervised-subscription.js';
+import { ShutdownCoordinator } from './shutdown-coordinator.js';
+import { SubmissionFailure } from '../utils/transaction-errors.js';
+import { StepJournal } from '../utils/step-journal.js';
+import { StepJournalRecovery, recoveredRunRecord } from './step-journal-recovery.js';
+
+const logger = new Logger('agent');
+const verifierLogger = new Logger('verifier');
 
 // Load environment variables
 config();
@@ -28,50 +59,78 @@ export class LynxBalancerAgent {
   private env: EnvironmentConfig;
   private isRunning: boolean = false;
   
-  // Token configuration for weight-based system
-  private readonly TOKEN_CONFIG = {
-    HBAR: {
-      tokenId: 'HBAR',
-      decimals: 8,
-      name: 'HBAR'
-    },
-    SAUCE: {
-      tokenId: '0.0.1183558',
-      decimals: 6,
-      name: 'SAUCE'
-    },
-    USDC: {
-      tokenId: '0.0.6212931',
-      decimals: 6,
-      name: 'USDC'
-    },
-    WBTC: {
-      tokenId: '0.0.6212930',
-      decimals: 8,
-      name: 'WBTC'
-    },
-    JAM: {
-      tokenId: '0.0.6212932',
-      decimals: 8,
-      name: 'JAM'
-    },
-    HEADSTART: {
-      tokenId: '0.0.6212933',
-      decimals: 8,
-      name: 'HEADSTART'
-    }
-  };
+  // Token registry shared with the state manager, planner and tools
+  private readonly tokenRegistry: TokenRegistry;
 
   // Blockchain tools
   private hederaAgentToolkit?: HederaLangchainToolkit;
   private agentExecutor?: AgentExecutor;
   private client?: Client;
+  private rebalanceExecutor?: RebalanceExecutor;
+  private treasuryTransactions?: TreasuryTransactions;
+  private scheduledExecution?: ScheduledExecution;
+  private dashboardPublisher?: DashboardPublisher;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private driftScheduler?: DriftScheduler;
+  private readonly startedAt = Date.now();
+
+  // Transfers run through RebalanceExecutor unless assistant mode is enabled
+  private executionMode: 'direct' | 'assistant';
+
+  // Only allowlisted signers or payers may trigger actions via the alert topic
+  private readonly alertAuthenticator: AlertAuthenticator;
+
+  // Per-run, hourly and daily limits on what the agent may move
+  private readonly riskPolicy: RiskPolicy;
+
+  // Plans above the approval threshold wait for signed approval before executing
+  private approvalWorkflow?: ApprovalWorkflow;
+
+  // Every run is appended to the audit log when it ends
+  private readonly runHistory = new RunHistoryStore();
+
+  // Partial and failed steps are retried with the remaining gap this many times
+  private readonly verifyMaxRetries: number;
+
+  // Transaction IDs are journaled before submission so a crashed run can be settled and resumed
+  private readonly stepJournal = new StepJournal();
+
+  // Last processed alert, persisted so missed alerts are replayed after a restart
+  private readonly alertCursorStore = new AlertCursorStore();
+  private alertCursor?: AlertCursor;
   
-  // Flow control
-  private isRebalancingInProgress: boolean = false;
+  // Flow control: runs are serialized and triggers arriving mid-run are coalesced
+  private readonly triggerQueue = new RebalanceTriggerQueue(triggers => this.runRebalancing(triggers));
+  private lastPlan?: RebalancePlan;
+  private isPaused: boolean = false;
+
+  // Served by the status server (STATUS_PORT): /healthz, /status and /metrics
+  private statusServer?: StatusServer;
+  private readonly metrics = new AgentMetrics();
+  private lastContractState?: ContractStateSnapshot & { fetchedAt: string };
+  private lastRun?: RunRecord;
+  private clientHealth?: HealthReport['client'];
+
+  // Alert topic subscription with reconnects and a stall watchdog
+  private alertSubscription?: SupervisedSubscription;
+
+  // SIGINT / SIGTERM drain the in-flight run before exiting; the open run is recorded if the drain times out
+  private shutdownCoordinator?: ShutdownCoordinator;
+  private shuttingDown = false;
+  private readonly shutdownController = new AbortController(); // aborted once shutdown starts
+  private activeRunRecord?: RunRecord;
 
   constructor() {
     this.env = process.env as NodeJS.ProcessEnv & EnvironmentConfig;
+    this.tokenRegistry = TokenRegistry.load();
+    this.executionMode = this.env.BALANCER_EXECUTION_MODE === 'assistant' ? 'assistant' : 'direct';
+    this.alertAuthenticator = AlertAuthenticator.fromEnvironment();
+    this.riskPolicy = RiskPolicy.fromEnvironment(this.tokenRegistry);
+
+    this.verifyMaxRetries = parseInt(this.env.REBALANCE_VERIFY_MAX_RETRIES || '2');
+    if (!(this.verifyMaxRetries >= 0)) {
+      throw new Error(`REBALANCE_VERIFY_MAX_RETRIES must be a non-negative number, got "${this.env.REBALANCE_VERIFY_MAX_RETRIES}"`);
+    }
   }
 
 
@@ -79,153 +138,554 @@ export class LynxBalancerAgent {
    * Execute full rebalancing based on current contract ratios
    * This is the main rebalancing function that can be called from startup or alerts
    */
-  async executeRebalancing(): Promise<void> {
-    // Prevent concurrent rebalancing operations
-    if (this.isRebalancingInProgress) {
-      console.log("⚠️  Rebalancing already in progress - ignoring this request");
+  async executeRebalancing(options: { dryRun?: boolean; trigger?: string } = {}): Promise<RebalancePlan | void> {
+    if (options.dryRun) {
+      return this.planRebalancing();
+    }
+
+    // Governance can pause the agent via a PAUSE alert
+    if (this.isPaused) {
+      logger.info('⏸️  Agent is paused - skipping rebalancing (send a RESUME alert to continue)');
       return;
     }
-    
+
+    // Runs one at a time; a request during a run is queued for a follow-up pass
+    await this.triggerQueue.request(options.trigger || 'manual');
+    return this.lastPlan;
+  }
+
+  /**
+   * Run one rebalancing pass for a batch of coalesced triggers (called by the trigger queue)
+   */
+  private async runRebalancing(triggers: RebalanceTrigger[]): Promise<void> {
+    // A PAUSE may have arrived while these triggers were queued
+    if (this.isPaused) {
+      logger.info(`⏸️  Agent is paused - dropping ${triggers.length} queued trigger(s)`);
+      return;
+    }
+
+    // Every log line of the run carries its run ID
+    const runId = randomUUID();
+    await withRunContext(runId, async () => {
+      logger.info('🔒 Rebalancing lock acquired');
+      try {
+        logger.info('⚖️  Executing portfolio rebalancing...');
+        logger.info('🔄 Starting treasury ratio validation...');
+        this.lastPlan = await this.validateTreasuryRatios(runId, triggers.map(trigger => trigger.reason).join(', ')) || undefined;
+        logger.info('✅ Treasury ratio validation completed');
+      } finally {
+        logger.info('🔓 Rebalancing lock released');
+      }
+    });
+  }
+
+  /**
+   * Build a rebalancing plan from the current contract state without submitting transactions
+   */
+  async planRebalancing(): Promise<RebalancePlan> {
+    logger.info('📝 Dry run - building rebalancing plan without submitting transactions...');
+
+    const stateManager = new ContractStateManager(this.tokenRegistry);
     try {
-      this.isRebalancingInProgress = true;
-      console.log("🔒 Rebalancing lock acquired");
-      
-      console.log("⚖️  Executing portfolio rebalancing...");
-      console.log("🔄 Starting treasury ratio validation...");
-      await this.validateTreasuryRatios();
-      console.log("✅ Treasury ratio validation completed");
-      
+      const contractState = await stateManager.fetchContractState();
+      return await this.createPlanner().buildPlan(contractState);
     } finally {
-      this.isRebalancingInProgress = false;
-      console.log("🔓 Rebalancing lock released");
+      stateManager.close();
     }
   }
 
   /**
-   * Validate treasury balances and rebalance each token individually
+   * Create a planner for the configured governance contract
    */
-  private async validateTreasuryRatios(): Promise<void> {
-    if (!this.agentExecutor) {
-      throw new Error("Agent executor not initialized");
+  private createPlanner(): RebalancePlanner {
+    return new RebalancePlanner(this.tokenRegistry, this.env.LYNX_CONTRACT_ID!);
+  }
+
+  /**
+   * Validate treasury balances and rebalance each token individually.
+   * Progress is published to the dashboard as REBALANCE_STARTED, TOKEN_ADJUSTED and
+   * REBALANCE_COMPLETED / REBALANCE_FAILED events whenever there is something to adjust.
+   * The plan is checked against the risk policy first; violations are published as
+   * RISK_LIMIT_VIOLATION and either scale the plan down or abort the run. Plans above the
+   * approval threshold are only executed once approved, and only if the state is unchanged.
+   * Each run, whatever its outcome, is appended to the run history.
+   */
+  private async validateTreasuryRatios(runId: string, trigger: string): Promise<RebalancePlan | void> {
+    if (!this.rebalanceExecutor) {
+      throw new Error('Rebalance executor not initialized');
     }
 
+    const runStartedAt = Date.now();
+    const adjustments: TokenAdjustment[] = [];
+    let before: ContractStateSnapshot | undefined;
+    const record: RunRecord = {
+      version: RUN_HISTORY_VERSION,
+      runId,
+      trigger,
+      agentAccountId: this.env.HEDERA_ACCOUNT_ID!,
+      contractId: this.env.LYNX_CONTRACT_ID!,
+      executionMode: this.executionMode,
+      startedAt: new Date(runStartedAt).toISOString(),
+      completedAt: '',
+      durationMs: 0,
+      outcome: 'failed',
+      analysis: [],
+      plannedSteps: [],
+      adjustments,
+      totalFee: '0'
+    };
+    this.activeRunRecord = record;
+
     try {
-      console.log("🔍 Starting treasury validation with sequential token processing...");
+      // Settle what a previous run left pending before any balance is read
+      record.resumedRunId = await this.recoverJournaledRun();
+      if (record.resumedRunId) {
+        logger.info(`⏯️  Resuming run ${record.resumedRunId}: its confirmed transfers are in the balances, so the fresh plan does not repeat them`);
+      }
+
+      logger.info('🔍 Starting treasury validation with sequential token processing...');
       
       // Get clean contract state using our utility
-      const stateManager = new ContractStateManager();
+      const stateManager = new ContractStateManager(this.tokenRegistry);
       const contractState = await stateManager.fetchContractState();
       stateManager.close();
+      before = this.observeContractState(contractState);
+      record.before = before;
 
-      // Track if any transfers were made
-      let transfersMade = false;
+      const plan = await this.createPlanner().buildPlan(contractState);
+      logger.info(`📋 Rebalancing plan\n${RebalancePlanner.formatTable(plan)}`);
+      plan.tokens.forEach(token => this.metrics.set('lynx_balancer_token_drift_percent', token.diffPercent, { token: token.tokenSymbol }));
+      Object.assign(record, describePlan(plan));
 
-      // Process each token individually
-      const tokens = ['HBAR', 'WBTC', 'SAUCE', 'USDC', 'JAM', 'HEADSTART'] as const;
+      if (plan.steps.length === 0) {
+        logger.info('✅ All tokens within tolerance - nothing to rebalance');
+        record.outcome = 'no_action';
+        return plan;
+      }
+
+      // Risk limits may reduce or drop steps, or stop the run altogether
+      const planner = this.createPlanner();
+      const risk = this.riskPolicy.evaluate(plan.steps, contractState, planner);
+      record.risk = { decision: risk.decision, violations: risk.violations };
+      if (risk.violations.length > 0) {
+        logger.warn(`🛑 Risk policy (${risk.decision}): ${risk.violations.map(violation => violation.message).join('; ')}`);
+        await this.dashboardPublisher?.publish({ type: 'RISK_LIMIT_VIOLATION', runId, trigger, decision: risk.decision === 'abort' ? 'abort' : 'scale', violations: risk.violations });
+      }
+      if (risk.decision === 'abort') {
+        record.outcome = 'aborted';
+        record.error = 'Run aborted by the risk policy';
+        await this.dashboardPublisher?.publish({ type: 'REBALANCE_FAILED', runId, trigger, error: record.error, before, adjustments });
+        return plan;
+      }
+
+      // Large moves wait for a signed approval tied to the plan hash
+      const approvalReason = this.approvalWorkflow?.approvalReason(risk.steps);
+      if (approvalReason) {
+        const request = this.approvalWorkflow!.createRequest(risk.steps, contractState, { runId, trigger, reason: approvalReason });
+        await this.dashboardPublisher?.publish({ type: 'APPROVAL_REQUESTED', runId, trigger, planHash: request.planHash, reason: approvalReason, expiresAt: request.expiresAt });
+
+        const approval = await this.approvalWorkflow!.requestApproval(request, this.shutdownController.signal);
+        record.approval = approval;
+        await this.dashboardPublisher?.publish({ type: 'APPROVAL_RESOLVED', runId, ...approval });
+        if (approval.status !== 'approved') {
+          logger.info(`🛑 Plan ${approval.planHash} ${approval.status} - not executing${approval.reason ? ` (${approval.reason})` : ''}`);
+          record.outcome = approval.status === 'cancelled' ? 'interrupted' : 'not_approved';
+          record.error = `Plan ${approval.status}${approval.reason ? `: ${approval.reason}` : ''}`;
+          await this.dashboardPublisher?.publish({ type: 'REBALANCE_FAILED', runId, trigger, error: record.error, before, adjustments });
+          return plan;
+        }
+
+        // A PAUSE may have arrived while the plan awaited approval
+        if (this.isPaused) {
+          logger.info(`⏸️  Agent was paused while plan ${approval.planHash} awaited approval - not executing`);
+          record.outcome = 'aborted';
+          record.error = 'Agent paused while the plan awaited approval';
+          await this.dashboardPublisher?.publish({ type: 'REBALANCE_FAILED', runId, trigger, error: record.error, before, adjustments });
+          return plan;
+        }
+
+        // The approval covers the state it was requested for; anything else needs a new plan
+        const approvalStateManager = new ContractStateManager(this.tokenRegistry);
+        let approvedState: ContractState;
+        try {
+          approvedState = await approvalStateManager.fetchContractState();
+        } finally {
+          approvalStateManager.close();
+        }
+        if (!stateMatchesSnapshot(approvedState, request.state)) {
+          logger.warn(`⚠️  Contract state changed while plan ${request.planHash} awaited approval - not executing`);
+          record.outcome = 'not_approved';
+          record.error = 'Contract state changed while the plan awaited approval';
+          await this.dashboardPublisher?.publish({ type: 'REBALANCE_FAILED', runId, trigger, error: record.error, before, adjustments });
+          return plan;
+        }
+      }
+
+      await this.dashboardPublisher?.publish({ type: 'REBALANCE_STARTED', runId, trigger, before, plannedSteps: risk.steps.length });
+
+      // Execute each planned step individually, verifying the balance after each adjustment
+      const preflight = new DepositPreflight(this.client!, planner, this.env.HEDERA_ACCOUNT_ID!, this.env.LYNX_CONTRACT_ID!);
+      const verifyStateManager = new ContractStateManager(this.tokenRegistry);
+      this.stepJournal.begin(
+        { runId, trigger, contractId: this.env.LYNX_CONTRACT_ID!, startedAt: record.startedAt },
+        risk.steps.map(step => ({
+          tokenSymbol: step.tokenSymbol,
+          tokenId: step.tokenId,
+          action: step.action,
+          amount: step.amount.toHuman(),
+          amountSmallestUnits: step.amountSmallestUnits,
+          contractFunction: step.contractFunction,
+          expectedBalance: step.expectedBalance.toHuman()
+        }))
+      );
+      try {
+        for (const [index, step] of risk.steps.entries()) {
+          // On shutdown the step in flight finishes, the remaining ones are left for the next start
+          if (this.shuttingDown) break;
+          logger.info(`⚖️  ${step.tokenSymbol} needs rebalancing - executing transfer...`);
+
+          this.stepJournal.startStep(index);
+          const adjustment = await this.executeAndVerifyStep(step, planner, preflight, verifyStateManager);
+          this.stepJournal.finishStep(index, adjustment.success);
+          adjustments.push(adjustment);
+          await this.dashboardPublisher?.publish({ type: 'TOKEN_ADJUSTED', runId, ...adjustment });
+        }
+      } finally {
+        verifyStateManager.close();
+      }
+
+      if (adjustments.length < risk.steps.length) {
+        const remaining = risk.steps.slice(adjustments.length).map(step => step.tokenSymbol);
+        record.outcome = 'interrupted';
+        record.error = `Interrupted by shutdown after ${adjustments.length} of ${risk.steps.length} step(s); not executed: ${remaining.join(', ')}`;
+        logger.warn(`🛑 ${record.error}`);
+        await this.dashboardPublisher?.publish({ type: 'REBALANCE_FAILED', runId, trigger, error: record.error, before, adjustments });
+        return plan;
+      }
+
+      logger.info('✅ Sequential token processing completed');
+
+      // Refresh contract state and report the outcome to the dashboard
+      logger.info('🔄 Transfers were made - refreshing contract state...');
+      const refreshStateManager = new ContractStateManager(this.tokenRegistry);
+      const updatedState = await refreshStateManager.fetchContractState();
+      refreshStateManager.close();
+      const after = this.observeContractState(updatedState);
+      record.after = after;
       
-      for (const tokenSymbol of tokens) {
-        console.log(`\n🔍 Processing ${tokenSymbol}...`);
-        
-        // Get current balance and target ratio for this token
-        const currentBalance = tokenSymbol === 'HBAR' 
-          ? contractState.contractBalance.hbar
-          : contractState.contractBalance.tokens[tokenSymbol as keyof typeof contractState.contractBalance.tokens];
-        
-        const targetRatio = contractState.ratios[tokenSymbol];
-        const lynxSupply = contractState.lynxTotalSupply;
-
-        // Check this token's ratio using our tool
-        const tokenRatioTool = new TokenRatioTool();
-        const analysisResult = await tokenRatioTool._call({
-          tokenSymbol,
-          currentBalance,
-          targetRatio,
-          lynxTotalSupply: lynxSupply
+      logger.info('✅ Contract state refreshed after transfers', {
+        ratios: updatedState.basket.map(asset => `${asset.symbol}=${asset.ratio}`).join(', '),
+        lynxSupply: updatedState.lynxTotalSupply,
+        balances: updatedState.basket.map(asset => `${asset.symbol}=${asset.balance}`).join(', ')
+      });
+
+      const failed = adjustments.filter(adjustment => !adjustment.success);
+      if (failed.length > 0) {
+        record.error = `${failed.length} of ${adjustments.length} adjustment(s) failed: ${failed.map(adjustment => adjustment.tokenSymbol).join(', ')}`;
+        await this.dashboardPublisher?.publish({
+          type: 'REBALANCE_FAILED',
+          runId,
+          trigger,
+          error: record.error,
+          before,
+          after,
+          adjustments
+        });
+      } else {
+        record.outcome = 'completed';
+        await this.dashboardPublisher?.publish({
+          type: 'REBALANCE_COMPLETED',
+          runId,
+          trigger,
+          before,
+          after,
+          adjustments,
+          durationMs: Date.now() - runStartedAt
         });
+      }
 
-        const analysis = JSON.parse(analysisResult);
-        console.log(`📊 ${tokenSymbol} Analysis:`, analysis.analysis);
-
-        // If this token needs rebalancing, handle it immediately
-        if (analysis.needsRebalancing && analysis.transferParams) {
-          console.log(`⚖️  ${tokenSymbol} needs rebalancing - executing transfer...`);
-          
-          const { action, amount, tool } = analysis.transferParams;
-          const tokenConfig = this.TOKEN_CONFIG[tokenSymbol as keyof typeof this.TOKEN_CONFIG];
-          
-          let transferInstructions = '';
-          if (action === 'withdraw') {
-            if (tokenSymbol === 'HBAR') {
-              transferInstructions = `Use ${tool} with:
-- contractId: ${this.env.LYNX_CONTRACT_ID}
-- amount: ${amount * 100000000} (${amount} HBAR in tinybars)`;
-            } else {
-              transferInstructions = `Use ${tool} with:
-- contractId: ${this.env.LYNX_CONTRACT_ID}
-- tokenId: ${tokenConfig?.tokenId}
-- amount: ${amount * Math.pow(10, tokenConfig?.decimals || 0)} (${amount} ${tokenSymbol} in smallest units)`;
-            }
-          } else if (action === 'deposit') {
-            transferInstructions = `Use ${tool} to transfer ${amount} ${tokenSymbol} FROM operator TO contract`;
-          }
-          
-          const transferResponse = await this.agentExecutor.invoke({
-            input: `${tokenSymbol} is out of balance. Current: ${currentBalance}, Required: ${analysis.requiredBalance}, Status: ${analysis.balanceStatus}.
+      return plan;
 
-${transferInstructions}
+    } catch (error) {
+      logger.error('❌ Failed to validate treasury ratios', { error });
+      record.outcome = 'failed';
+      record.error = error instanceof Error ? error.message : String(error);
+      await this.dashboardPublisher?.publish({
+        type: 'REBALANCE_FAILED',
+        runId,
+        trigger,
+        error: record.error,
+        before,
+        adjustments
+      });
+    } finally {
+      this.riskPolicy.endRun();
+      // Already recorded if the shutdown stopped waiting for this run
+      if (this.activeRunRecord === record) {
+        this.activeRunRecord = undefined;
+        this.recordRun(record);
+        this.stepJournal.close(runId);
+      }
+    }
+  }
+
+  /**
+   * Settle the transactions a previous run left pending in the step journal (the process died or
+   * a submission timed out) and record that run if it never was. Throws while any outcome is still
+   * unknown, so no run moves funds on top of a transaction that may yet execute.
+   * Returns the ID of the journaled run, if there was one.
+   */
+  private async recoverJournaledRun(): Promise<string | undefined> {
+    const journaled = this.stepJournal.load();
+    if (!journaled) return undefined;
+
+    logger.info(`📒 Step journal holds run ${journaled.runId} with ${this.stepJournal.pendingTransactions().length} pending transaction(s) - recovering`);
+    const unresolved = await new StepJournalRecovery(this.client!, this.scheduledExecution).resolve(this.stepJournal);
+    if (unresolved.length > 0) {
+      throw new Error(`Outcome of ${unresolved.map(transaction => transaction.transactionId).join(', ')} from run ${journaled.runId} is unknown - not rebalancing until it is settled (see ${this.stepJournal.path})`);
+    }
+
+    let recorded = false;
+    try {
+      recorded = this.runHistory.get(journaled.runId) !== undefined;
+    } catch (error) {
+      logger.warn('⚠️  Could not read the run history', { error });
+    }
+    if (!recorded) {
+      this.recordRun(recoveredRunRecord(journaled, { agentAccountId: this.env.HEDERA_ACCOUNT_ID!, executionMode: this.executionMode }));
+    }
+
+    this.stepJournal.clear();
+    return journaled.runId;
+  }
+
+  /**
+   * Record the run still in flight as interrupted (the shutdown drain timed out)
+   */
+  private recordInterruptedRun(): void {
+    const record = this.activeRunRecord;
+    if (!record) return;
+    this.activeRunRecord = undefined;
+
+    record.outcome = 'interrupted';
+    record.error = `Interrupted by shutdown after ${record.adjustments.length} of ${record.plannedSteps.length} planned step(s) before the run finished`;
+    this.recordRun(record);
+  }
+
+
+  /**
+   * Append a finished run to the run history; a history write failure never fails the run
+   */
+  private recordRun(record: RunRecord): void {
+    record.completedAt = new Date().toISOString();
+    record.durationMs = Date.parse(record.completedAt) - Date.parse(record.startedAt);
+    record.totalFee = totalFee(record.adjustments);
+    record.totalGasUsed = totalGasUsed(record.adjustments);
+
+    this.lastRun = record;
+    this.metrics.increment('lynx_balancer_runs_total', { outcome: record.outcome });
+    if (record.outcome === 'failed') {
+      this.metrics.increment('lynx_balancer_failures_total', { stage: 'run' });
+    }
+
+    try {
+      this.runHistory.append(record);
+      logger.info(`🗂️  Run ${record.runId} recorded (${record.outcome}) in ${this.runHistory.path}`);
+    } catch (error) {
+      logger.error(`❌ Failed to record run ${record.runId}`, { error });
+    }
+  }
+
+  /**
+   * Execute a step, re-read the token balance and classify the result as verified, partial or failed.
+   * Partial and failed steps are retried with the remaining gap up to REBALANCE_VERIFY_MAX_RETRIES
+   * times (default 2); a step that is still not verified is escalated as a failed adjustment.
+   * Every deposit attempt passes the pre-flight check first and may be reduced or skipped, and
+   * every attempt is capped by what the risk policy still allows for this token in the run.
+   */
+  private async executeAndVerifyStep(
+    step: PlannedStep,
+    planner: RebalancePlanner,
+    preflight: DepositPreflight,
+    stateManager: ContractStateManager
+  ): Promise<TokenAdjustment> {
+    const maxRetries = this.verifyMaxRetries;
+    const adjustment: TokenAdjustment = {
+      tokenSymbol: step.tokenSymbol,
+      tokenId: step.tokenId,
+      action: step.action,
+      amount: step.amount.toHuman(),
+      amountSmallestUnits: step.amountSmallestUnits,
+      contractFunction: step.contractFunction,
+      success: false,
+      attempts: 0,
+      transactionIds: []
+    };
+
+    let attemptStep: PlannedStep | null = step;
+    let lastFailure: SubmissionFailure | undefined; // of the last direct submission
+    while (attemptStep) {
+      if (this.shuttingDown && adjustment.attempts > 0) {
+        adjustment.error = `Retry skipped during shutdown${adjustment.error ? `: ${adjustment.error}` : ''}`;
+        break;
+      }
+
+      const check = await preflight.check(attemptStep);
+      if (check.decision !== 'proceed') {
+        adjustment.preflight = { decision: check.decision, reason: check.reason };
+      }
+      if (!check.step) {
+        adjustment.status = adjustment.attempts === 0 ? 'SKIPPED_PREFLIGHT' : adjustment.status;
+        adjustment.error = `Pre-flight: ${check.reason}`;
+        break;
+      }
+      attemptStep = check.step;
+
+      const authorization = this.riskPolicy.authorize(attemptStep.tokenSymbol, attemptStep.amount);
+      if (authorization.violations.length > 0) {
+        adjustment.riskLimited = authorization.violations.map(violation => violation.message).join('; ');
+        logger.warn(`🛑 Risk policy: ${adjustment.riskLimited}`);
+      }
+      if (authorization.amount.isZero()) {
+        adjustment.status = adjustment.attempts === 0 ? 'SKIPPED_RISK_LIMIT' : adjustment.status;
+        adjustment.error = `Risk limit: ${adjustment.riskLimited}`;
+        break;
+      }
+      if (authorization.amount.compare(attemptStep.amount) < 0) {
+        attemptStep = planner.resizeStep(attemptStep, authorization.amount);
+      }
+      adjustment.attempts++;
+
+      if (this.executionMode === 'assistant') {
+        // The LLM submits the transaction itself, so no transaction ID is available here
+        await this.executeTransferWithAssistant(attemptStep);
+        // The withdrawal and transfer tools record their own submissions with the risk policy
+        adjustment.status = 'SUBMITTED_BY_ASSISTANT';
+      } else {
+        const result = await this.rebalanceExecutor!.executeStep(attemptStep);
+        adjustment.transactionId = adjustment.transactionId || result.transactionId;
+        if (result.transactionId) adjustment.transactionIds.push(result.transactionId);
+        if (result.scheduleId) adjustment.scheduleIds = [...(adjustment.scheduleIds ?? []), result.scheduleId];
+        adjustment.receipts = [...(adjustment.receipts ?? []), {
+          transactionId: result.transactionId,
+          status: result.status,
+          fee: result.feeTinybars ? TokenAmount.fromRaw(result.feeTinybars, 8).toHuman() : undefined,
+          gasLimit: result.gasLimit,
+          gasUsed: result.gasUsed,
+          scheduleId: result.scheduleId,
+          error: result.error
+        }];
+        adjustment.status = result.status;
+        adjustment.error = result.error;
+        adjustment.failure = result.failure;
+        lastFailure = result.failure;
+        this.metrics.increment('lynx_balancer_transfers_total', { token: step.tokenSymbol, action: attemptStep.action, result: result.success ? 'success' : result.failure ?? 'failed' });
+        if (!result.success) {
+          this.metrics.increment('lynx_balancer_failures_total', { stage: 'transfer' });
+        }
 
-Fix ${tokenSymbol} balance now.`
-          });
-          
-          console.log(`📄 ${tokenSymbol} Transfer:`, transferResponse.output);
-          transfersMade = true; // Mark that a transfer was made
+        // Failed and ambiguous submissions count against the limits as well
+        this.riskPolicy.record(attemptStep.tokenSymbol, attemptStep.action, attemptStep.amount, result);
+        if (result.success) {
+          logger.info(`📄 ${step.tokenSymbol} Transfer: ${result.functionName} ${result.status} (${result.transactionId})`);
         } else {
-          console.log(`✅ ${tokenSymbol} is balanced`);
+          logger.error(`❌ ${step.tokenSymbol} Transfer failed (${result.failure}, ${result.attempts} submission(s)): ${result.error}`);
         }
       }
 
-      console.log("\n✅ Sequential token processing completed");
+      // Targeted re-read of this token's balance
+      const actualBalance = await stateManager.fetchTokenBalance(step.tokenSymbol);
+      const verification = verifyStep(step, actualBalance);
+      adjustment.verification = verification.status;
+      adjustment.verifiedBalance = actualBalance.toHuman();
+      verifierLogger.info(`🔎 ${step.tokenSymbol} verification: ${verification.status} (actual ${actualBalance}, planned ${step.expectedBalance}, required ${step.requiredBalance}, diff ${verification.comparison.diffPercent.toFixed(2)}%)`);
 
-      // If any transfers were made, refresh contract state and notify dashboard
-      if (transfersMade) {
-        console.log("🔄 Transfers were made - refreshing contract state...");
-        const refreshStateManager = new ContractStateManager();
-        const updatedState = await refreshStateManager.fetchContractState();
-        refreshStateManager.close();
-        
-        console.log("📊 Updated State Summary:");
-        console.log(`   Ratios: ${Object.entries(updatedState.ratios).map(([k,v]) => `${k}=${v}`).join(', ')}`);
-        console.log(`   LYNX Supply: ${updatedState.lynxTotalSupply}`);
-        console.log(`   HBAR Balance: ${updatedState.contractBalance.hbar}`);
-        console.log(`   Token Balances: ${Object.entries(updatedState.contractBalance.tokens).map(([k,v]) => `${k}=${v}`).join(', ')}`);
-        console.log("✅ Contract state refreshed after transfers");
-        
-        // Send notification to dashboard
-        await this.sendDashboardNotification(updatedState);
+      if (verification.status === 'verified') {
+        adjustment.success = true;
+        adjustment.error = undefined;
+        break;
       }
 
-    } catch (error) {
-      console.error("❌ Failed to validate treasury ratios:", error);
+      // Retries go through the direct executor only
+      // Fatal failures would fail again; an ambiguous one may still execute, so nothing is added on top
+      if (this.executionMode === 'assistant' || adjustment.attempts > maxRetries || lastFailure === 'fatal' || lastFailure === 'ambiguous') {
+        adjustment.error = `${step.tokenSymbol} balance ${actualBalance} is not within tolerance of ${step.requiredBalance} after ${adjustment.attempts} attempt(s)${adjustment.error ? `: ${adjustment.error}` : ''}`;
+        verifierLogger.error(`🚨 Escalating ${step.tokenSymbol}: ${adjustment.error}`);
+        this.metrics.increment('lynx_balancer_failures_total', { stage: 'verification' });
+        break;
+      }
+
+      attemptStep = planner.remainingStep(step, actualBalance);
+      if (attemptStep) {
+        verifierLogger.info(`🔁 Retrying ${step.tokenSymbol}: ${attemptStep.action} ${attemptStep.amount} (attempt ${adjustment.attempts + 1} of ${maxRetries + 1})`);
+      }
     }
+
+    return adjustment;
   }
 
+  /**
+   * Assistant mode: ask the LLM to perform the transfer using the available tools
+   */
+  private async executeTransferWithAssistant(step: PlannedStep): Promise<void> {
+    if (!this.agentExecutor) {
+      throw new Error('Agent executor not initialized');
+    }
+
+    const tool = step.action === 'withdraw'
+      ? (step.tokenId === 'HBAR' ? 'hbar_withdrawal_tool' : 'token_withdrawal_tool')
+      : (step.tokenId === 'HBAR' ? 'transfer_hbar' : 'token_transfer_tool');
+
+    let transferInstructions = '';
+    if (step.action === 'withdraw') {
+      if (step.tokenId === 'HBAR') {
+        transferInstructions = `Use ${tool} with:
+- contractId: ${this.env.LYNX_CONTRACT_ID}
+- amount: ${step.amountSmallestUnits} (${step.amount} HBAR in tinybars)`;
+      } else {
+        transferInstructions = `Use ${tool} with:
+- contractId: ${this.env.LYNX_CONTRACT_ID}
+- tokenId: ${step.tokenId}
+- amount: ${step.amountSmallestUnits} (${step.amount} ${step.tokenSymbol} in smallest units)`;
+      }
+    } else {
+      transferInstructions = `Use ${tool} to transfer ${step.amount} ${step.tokenSymbol} FROM operator TO contract`;
+    }
+
+    let transferResponse;
+    try {
+      transferResponse = await this.agentExecutor.invoke({
+        input: `${step.tokenSymbol} is out of balance. Current: ${step.currentBalance}, Required: ${step.requiredBalance}, Status: ${step.action === 'withdraw' ? 'EXCESS' : 'DEFICIT'}.
+
+${transferInstructions}
+
+Fix ${step.tokenSymbol} balance now.`
+      });
+      this.metrics.increment('lynx_balancer_llm_calls_total', { result: 'success' });
+    } catch (error) {
+      this.metrics.increment('lynx_balancer_llm_calls_total', { result: 'error' });
+      throw error;
+    }
+
+    logger.info(`📄 ${step.tokenSymbol} Transfer`, { output: transferResponse.output });
+  }
 
   /**
    * Initialize the balancer agent
    */
   async initialize(): Promise<void> {
-    console.log("🦌⚡ Initializing Lynx Balancer Agent");
-    console.log("=====================================");
+    logger.info('🦌⚡ Initializing Lynx Balancer Agent');
 
     // Validate required environment variables
     const requiredVars = [
-      'OPENAI_API_KEY',
       'HEDERA_ACCOUNT_ID',
       'HEDERA_PRIVATE_KEY',
       'LYNX_CONTRACT_ID',
       'CONTRACT_LYNX_TOKEN',
       'BALANCER_ALERT_TOPIC',
-      'DASHBOARD_ALERT_TOPIC'
+      'DASHBOARD_ALERT_TOPIC',
+      // The LLM is only used in assistant mode
+      ...(this.executionMode === 'assistant' ? ['OPENAI_API_KEY'] : [])
     ];
     
     const missingVars = requiredVars.filter(varName => !this.env[varName]);
@@ -237,12 +697,15 @@ Fix ${tokenSymbol} balance now.`
       // Initialize blockchain tools
       await this.initializeBlockchainTools();
 
-      console.log("✅ Lynx Balancer Agent initialized successfully");
-      console.log(`📋 Account ID: ${this.env.HEDERA_ACCOUNT_ID}`);
-      console.log(`🌐 Network: ${this.env.HEDERA_NETWORK || 'testnet'}`);
+      logger.info('✅ Lynx Balancer Agent initialized successfully');
+      logger.info(`📋 Account ID: ${this.env.HEDERA_ACCOUNT_ID}`);
+      logger.info(`🌐 Network: ${getHederaNetwork()}`);
+      logger.info(`🔐 Alert senders: ${this.alertAuthenticator.describe()}`);
+      logger.info(`🛡️  Risk limits: ${this.riskPolicy.describe()}`);
+      logger.info(`✍️  Approvals: ${this.approvalWorkflow?.describe() ?? 'not required'}`);
 
     } catch (error) {
-      console.error("❌ Failed to initialize balancer agent:", error);
+      logger.error('❌ Failed to initialize balancer agent', { error });
       throw error;
     }
   }
@@ -251,116 +714,169 @@ Fix ${tokenSymbol} balance now.`
    * Initialize blockchain tools for rebalancing operations
    */
   private async initializeBlockchainTools(): Promise<void> {
-    console.log("🔧 Initializing blockchain tools for rebalancing...");
+    logger.info('🔧 Initializing blockchain tools for rebalancing...');
 
     try {
-      // Initialize Hedera Client (following tool-calling-balance-check pattern)
-      this.client = Client.forTestnet();
-      this.client.setOperator(this.env.HEDERA_ACCOUNT_ID!, this.env.HEDERA_PRIVATE_KEY!);
-
-      // Initialize V3 Hedera Agent Kit with plugins
-      this.hederaAgentToolkit = new HederaLangchainToolkit({
-        client: this.client,
-        configuration: {
-          tools: [], // empty array loads all tools
-          context: {
-            mode: AgentMode.AUTONOMOUS,
-          },
-          plugins: [coreHTSPlugin, coreAccountPlugin, coreConsensusPlugin, coreQueriesPlugin],
-        }
-      });
+      // Initialize Hedera Client for the configured network (operator from HEDERA_ACCOUNT_ID / HEDERA_PRIVATE_KEY)
+      this.client = createHederaClient();
 
-      const llm = new ChatOpenAI({
-        modelName: "gpt-4o-mini",           // or "gpt-4o", "gpt-3.5-turbo", etc.
-        temperature: 0,                     // 0 = deterministic, 1 = creative
-        configuration: {
-            baseURL: "https://ai-gateway.vercel.sh/v1",  // Vercel AI Gateway
-        },
-        apiKey: process.env.AI_GATEWAY_API_KEY!,         // Your Vercel AI Gateway key
-    });
+      // Check registry decimals against the network before any amounts are computed
+      await this.tokenRegistry.validate(this.client);
 
-      // Create the agent prompt template
-      const prompt = ChatPromptTemplate.fromMessages([
-        ['system', `You are a treasury balancing agent for the Lynx DAO.
-          You have access to Hedera blockchain tools that allow you to:
-          - Query account balances and information
-          - Check token balances for specific accounts
-          - Transfer HBAR between accounts
-          - Transfer tokens between accounts
-          - Call contract functions for withdrawals
-
-          Current Configuration:
-          - Operator Account: ${this.env.HEDERA_ACCOUNT_ID}
-          - Governance Contract: ${this.env.LYNX_CONTRACT_ID}
-          - Network: ${this.env.HEDERA_NETWORK || 'testnet'}
-
-          Token Mappings:
-          ${Object.entries(this.TOKEN_CONFIG).map(([symbol, config]) => `- ${config.tokenId} = ${symbol} (${config.decimals} decimals)`).join('\n          ')}
-
-          Your job is to maintain target portfolio ratios by rebalancing token holdings.`],
-        ['user', '{input}'],
-        ['placeholder', '{agent_scratchpad}'],
-      ]);
-
-      // Get Hedera tools and add custom tools (following tool-calling-balance-check pattern)
-      const hederaTools = this.hederaAgentToolkit.getTools();
-      const tokenTransferTool = new TokenTransferTool(this.client);
-      const hbarWithdrawalTool = new HbarWithdrawalTool(this.client);
-      const tokenWithdrawalTool = new TokenWithdrawalTool(this.client);
-
-      const contractRatioTool = new ContractRatioTool(this.client);
-      const tokenSupplyTool = new TokenSupplyTool(this.client);
-      const tokenRatioTool = new TokenRatioTool();
-      // Using built-in get-topic-messages-query instead of custom topic query tool
-      const allTools = [...hederaTools, tokenTransferTool, hbarWithdrawalTool, tokenWithdrawalTool, contractRatioTool, tokenSupplyTool, tokenRatioTool];
-
-      // Create the tool-calling agent (following tool-calling-balance-check pattern)
-      const agent = await createToolCallingAgent({
-        llm,
-        tools: allTools,
-        prompt
-      });
-      
-      // Create the agent executor (following tool-calling-balance-check pattern)
-      this.agentExecutor = new AgentExecutor({
-        agent,
-        tools: allTools,
-        verbose: false,
-        maxIterations: 10
+      // BALANCER_SIGNING_MODE=scheduled wraps every treasury transaction in a schedule for multi-key signing
+      this.scheduledExecution = ScheduledExecution.fromEnvironment(this.client);
+      if (this.scheduledExecution && this.executionMode === 'assistant') {
+        throw new Error('BALANCER_SIGNING_MODE=scheduled requires the direct execution mode (Hedera Agent Kit transfers cannot be scheduled)');
+      }
+      this.treasuryTransactions = new TreasuryTransactions(this.client, this.scheduledExecution);
+      this.treasuryTransactions.useJournal(this.stepJournal);
+
+      // Direct execution path for rebalancing transfers
+      this.rebalanceExecutor = new RebalanceExecutor(
+        this.treasuryTransactions,
+        this.env.LYNX_CONTRACT_ID!,
+        this.env.HEDERA_ACCOUNT_ID!
+      );
+
+      // Structured dashboard events are published directly, not through the LLM
+      if (this.env.DASHBOARD_ALERT_TOPIC) {
+        this.dashboardPublisher = new DashboardPublisher(
+          this.client,
+          this.env.DASHBOARD_ALERT_TOPIC,
+          { agentAccountId: this.env.HEDERA_ACCOUNT_ID!, contractId: this.env.LYNX_CONTRACT_ID! },
+          parseInt(this.env.DASHBOARD_MAX_CHUNKS || '20')
+        );
+      }
+
+      // Signers need the schedule ID, so every new schedule is announced on the dashboard
+      this.scheduledExecution?.onScheduleCreated(async schedule => {
+        await this.dashboardPublisher?.publish({ type: 'SCHEDULE_CREATED', ...schedule });
       });
 
-      console.log("✅ Blockchain tools initialized");
-      console.log(`📋 Operator Account: ${this.env.HEDERA_ACCOUNT_ID}`);
-      console.log(`🏛️  Governance Contract: ${this.env.LYNX_CONTRACT_ID}`);
+      // Sign-off for large plans; notional thresholds use the risk policy's reference prices
+      this.approvalWorkflow = ApprovalWorkflow.fromEnvironment(
+        this.client,
+        { agentAccountId: this.env.HEDERA_ACCOUNT_ID!, contractId: this.env.LYNX_CONTRACT_ID! },
+        (tokenSymbol, amount) => this.riskPolicy.notional(tokenSymbol, amount)
+      );
+
+      if (this.executionMode === 'assistant') {
+        await this.initializeAssistant(this.client);
+      }
+
+      logger.info('✅ Blockchain tools initialized');
+      logger.info(`📋 Operator Account: ${this.env.HEDERA_ACCOUNT_ID}`);
+      logger.info(`🏛️  Governance Contract: ${this.env.LYNX_CONTRACT_ID}`);
+      logger.info(`⚙️  Execution Mode: ${this.executionMode}`);
+      logger.info(`🔏 Signing Mode: ${this.scheduledExecution ? 'scheduled (multi-key)' : 'operator'}`);
 
     } catch (error) {
-      console.error("❌ Failed to initialize blockchain tools:", error);
+      logger.error('❌ Failed to initialize blockchain tools', { error });
       throw error;
     }
   }
 
+  /**
+   * Initialize the LangChain agent used in assistant mode (Hedera Agent Kit plus custom tools)
+   */
+  private async initializeAssistant(client: Client): Promise<void> {
+    // Initialize V3 Hedera Agent Kit with plugins
+    this.hederaAgentToolkit = new HederaLangchainToolkit({
+      client: client,
+      configuration: {
+        tools: [], // empty array loads all tools
+        context: {
+          mode: AgentMode.AUTONOMOUS,
+        },
+        plugins: [coreHTSPlugin, coreAccountPlugin, coreConsensusPlugin, coreQueriesPlugin],
+      }
+    });
+
+    const llm = new ChatOpenAI({
+      modelName: "gpt-4o-mini",           // or "gpt-4o", "gpt-3.5-turbo", etc.
+      temperature: 0,                     // 0 = deterministic, 1 = creative
+      configuration: {
+          baseURL: "https://ai-gateway.vercel.sh/v1",  // Vercel AI Gateway
+      },
+      apiKey: process.env.AI_GATEWAY_API_KEY!,         // Your Vercel AI Gateway key
+    });
+
+    // Create the agent prompt template
+    const prompt = ChatPromptTemplate.fromMessages([
+      ['system', `You are a treasury balancing agent for the Lynx DAO.
+        You have access to Hedera blockchain tools that allow you to:
+        - Query account balances and information
+        - Check token balances for specific accounts
+        - Transfer HBAR between accounts
+        - Transfer tokens between accounts
+        - Call contract functions for withdrawals
+
+        Current Configuration:
+        - Operator Account: ${this.env.HEDERA_ACCOUNT_ID}
+        - Governance Contract: ${this.env.LYNX_CONTRACT_ID}
+        - Network: ${getHederaNetwork()}
+
+        Token Mappings:
+        ${this.tokenRegistry.getTokens().map(token => `- ${token.tokenId} = ${token.symbol} (${token.decimals} decimals)`).join('\n          ')}
+
+        Your job is to maintain target portfolio ratios by rebalancing token holdings.`],
+      ['user', '{input}'],
+      ['placeholder', '{agent_scratchpad}'],
+    ]);
+
+    // Get Hedera tools and add custom tools (following tool-calling-balance-check pattern)
+    const hederaTools = this.hederaAgentToolkit.getTools();
+    const tokenTransferTool = new TokenTransferTool(client, this.tokenRegistry, this.riskPolicy, this.treasuryTransactions);
+    const hbarWithdrawalTool = new HbarWithdrawalTool(client, this.riskPolicy, this.treasuryTransactions);
+    const tokenWithdrawalTool = new TokenWithdrawalTool(client, this.tokenRegistry, this.riskPolicy, this.treasuryTransactions);
+
+    const contractRatioTool = new ContractRatioTool(client, this.tokenRegistry);
+    const tokenSupplyTool = new TokenSupplyTool(client);
+    const tokenRatioTool = new TokenRatioTool();
+    // Using built-in get-topic-messages-query instead of custom topic query tool
+    const allTools = [...hederaTools, tokenTransferTool, hbarWithdrawalTool, tokenWithdrawalTool, contractRatioTool, tokenSupplyTool, tokenRatioTool];
+
+    // Create the tool-calling agent (following tool-calling-balance-check pattern)
+    const agent = await createToolCallingAgent({
+      llm,
+      tools: allTools,
+      prompt
+    });
+    
+    // Create the agent executor (following tool-calling-balance-check pattern)
+    this.agentExecutor = new AgentExecutor({
+      agent,
+      tools: allTools,
+      verbose: false,
+      maxIterations: 10
+    });
+  }
+
   /**
    * Start the balancer agent
    */
   async start(): Promise<void> {
-    console.log("🚀 Starting Lynx Balancer Agent");
-    console.log("=================================");
+    logger.info('🚀 Starting Lynx Balancer Agent');
 
     if (!this.isRunning) {
       this.isRunning = true;
       
-      // Handle graceful shutdown
-      process.on('SIGINT', async () => {
-        console.log('\n🛑 Received SIGINT. Shutting down gracefully...');
-        await this.stop();
-        process.exit(0);
+      // SIGINT / SIGTERM: stop taking triggers, let the current step reach its receipt, then exit
+      this.shutdownCoordinator = new ShutdownCoordinator(ShutdownCoordinator.configFromEnvironment(), {
+        drain: () => this.drain(),
+        onDrainTimeout: () => this.recordInterruptedRun(),
+        close: () => this.stop()
       });
+      this.shutdownCoordinator.install();
 
       try {
+        // Health, status and metrics are served from before the catch-up so probes see startup
+        await this.startStatusServer();
+
         // Start topic monitoring for balancer alerts
         await this.startTopicMonitoring();
       } catch (error) {
-        console.error("❌ Error in agent main loop:", error);
+        logger.error('❌ Error in agent main loop', { error });
         await this.stop();
         throw error;
       }
@@ -371,16 +887,12 @@ Fix ${tokenSymbol} balance now.`
    * Start monitoring the balancer alerts topic
    */
   private async startTopicMonitoring(): Promise<void> {
-    if (!this.agentExecutor) {
-      throw new Error("Agent executor not initialized");
-    }
-
     const topicId = this.env.BALANCER_ALERT_TOPIC;
     if (!topicId || topicId.trim() === '') {
-      console.log("⚠️  BALANCER_ALERT_TOPIC is not configured or empty");
-      console.log("🔧 Please run 'npm run test:alert hbar' first to create the topic");
-      console.log("📋 Then add the topic ID to your .env file: BALANCER_ALERT_TOPIC_ID=0.0.XXXXXX");
-      console.log("🔄 Waiting for topic configuration...");
+      logger.warn('⚠️  BALANCER_ALERT_TOPIC is not configured or empty');
+      logger.warn('🔧 Please run `npm run test:alert status` first to create the topic');
+      logger.warn('📋 Then add the topic ID to your .env file: BALANCER_ALERT_TOPIC_ID=0.0.XXXXXX');
+      logger.info('🔄 Waiting for topic configuration...');
       
       // Wait and check periodically for topic ID to be configured
       while (this.isRunning && (!this.env.BALANCER_ALERT_TOPIC || this.env.BALANCER_ALERT_TOPIC.trim() === '')) {
@@ -397,94 +909,486 @@ Fix ${tokenSymbol} balance now.`
     }
 
     const finalTopicId = this.env.BALANCER_ALERT_TOPIC!;
-    console.log("📡 Starting topic monitoring...");
-    console.log(`🎯 Monitoring topic: ${finalTopicId}`);
+    logger.info('📡 Starting topic monitoring...');
+    logger.info(`🎯 Monitoring topic: ${finalTopicId}`);
 
     try {
-      // Execute initial rebalancing on startup
-      await this.executeRebalancing();
-
-      // Subscribe to topic messages using TopicMessageQuery
-      const subscriptionStartTime = new Date();
-      console.log("🔄 Starting real-time topic subscription...");
-      console.log(`⏰ Subscription start time: ${subscriptionStartTime.toISOString()}`);
-      console.log("📝 Only new messages from this point forward will be processed");
-      
-      new TopicMessageQuery()
-        .setTopicId(finalTopicId)
-        .setStartTime(Timestamp.fromDate(subscriptionStartTime))
-        .subscribe(
-          this.client!,
-          (message, error) => {
-            if (error) {
-              console.error("❌ Topic subscription error:", error);
-              return;
-            }
-          },
-          async (message) => {
-            if (!this.isRunning || !message) return; // Skip processing if agent is stopped or message is null
-            
-            try {
-              console.log("🚨 New topic message received!");
-              console.log(`📨 Message: ${Buffer.from(message.contents).toString("utf8")}`);
-              console.log(`🕒 Timestamp: ${new Date(message.consensusTimestamp.toDate())}`);
-              
-              // Check if rebalancing is already in progress
-              if (this.isRebalancingInProgress) {
-                console.log("⚠️  Rebalancing already in progress - ignoring this alert");
-                return;
-              }
-              
-              // Execute rebalancing in response to the alert
-              console.log("🚨 Alert detected - executing rebalancing...");
-              await this.executeRebalancing();
-              console.log("✅ Rebalancing completed in response to topic alert");
-              
-            } catch (error) {
-              console.error("❌ Error processing topic message:", error);
-            }
+      // Replay alerts published while the agent was down
+      this.alertCursor = this.alertCursorStore.load(finalTopicId);
+      if (this.alertCursor?.paused) {
+        this.isPaused = true;
+        logger.info('⏸️  Agent was paused before shutdown - staying paused until a RESUME alert');
+      }
+      const missedRebalances = await this.catchUpMissedAlerts(finalTopicId);
+
+      // Execute initial rebalancing on startup; this also covers any missed rebalance triggers
+      // and finishes a run a previous shutdown interrupted
+      await this.executeRebalancing({ trigger: this.startupTrigger(missedRebalances) });
+      if (!this.isRunning) return;
+
+      // Subscribe right after the last processed message so nothing falls between catch-up and subscription;
+      // the supervisor resubscribes from the last message it saw whenever the stream fails or stalls
+      logger.info('🔄 Starting real-time topic subscription...');
+      this.alertSubscription = new SupervisedSubscription(
+        this.client!,
+        finalTopicId,
+        async (message) => {
+          if (!this.isRunning) return; // Skip processing if agent is stopped
+
+          try {
+            await this.handleAlertMessage(message);
+          } catch (error) {
+            logger.error('❌ Error processing topic message', { error });
+            this.metrics.increment('lynx_balancer_failures_total', { stage: 'alert' });
           }
-        );
+        },
+        SupervisedSubscription.configFromEnvironment()
+      );
+      this.alertSubscription.onStateChange(status => {
+        this.metrics.set('lynx_balancer_subscription_live', status.state === 'live' ? 1 : 0);
+        if (status.state === 'reconnecting' || status.state === 'stalled') {
+          this.metrics.increment('lynx_balancer_failures_total', { stage: 'subscription' });
+        }
+      });
+      this.alertSubscription.start(this.alertCursor!.consensusTimestamp);
+
+      this.startHeartbeat();
+      this.startDriftPolling();
 
-      console.log("✅ Topic subscription active - waiting for messages...");
-      console.log("💡 The agent will now process alerts in real-time as they arrive");
+      logger.info('✅ Topic subscription active - waiting for messages...');
+      logger.info('💡 The agent will now process alerts in real-time as they arrive');
 
     } catch (error) {
-      console.error("❌ Error setting up topic monitoring:", error);
+      logger.error('❌ Error setting up topic monitoring', { error });
       throw error;
     }
   }
 
   /**
-   * Send notification to dashboard topic when rebalancing is completed
+   * Reason for the startup rebalance, noting coalesced missed alerts and an interrupted last run
    */
-  private async sendDashboardNotification(contractState: ContractState): Promise<void> {
+  private startupTrigger(missedRebalances: number): string {
+    const notes: string[] = [];
+    if (missedRebalances > 0) {
+      notes.push(`${missedRebalances} missed alert(s) coalesced`);
+    }
+
     try {
-      if (!this.agentExecutor || !this.env.DASHBOARD_ALERT_TOPIC) {
-        console.log("⚠️  Dashboard notification skipped - missing agent executor or topic ID");
-        return;
+      const [lastRun] = this.runHistory.list({ limit: 1 });
+      if (lastRun?.outcome === 'interrupted') {
+        logger.info(`⏯️  Last run ${lastRun.runId} was interrupted by a shutdown - the startup rebalance completes it against fresh state`);
+        notes.push(`resuming interrupted run ${lastRun.runId}`);
       }
+    } catch (error) {
+      logger.warn('⚠️  Could not read the run history', { error });
+    }
 
-      console.log("📡 Sending rebalancing notification to dashboard...");
-      
-      const notificationMessage = `Rebalancing completed at ${new Date().toISOString()}. 
-Contract state updated:
-- LYNX Supply: ${contractState.lynxTotalSupply}
-- HBAR Balance: ${contractState.contractBalance.hbar}
-- Token Balances: ${Object.entries(contractState.contractBalance.tokens).map(([k,v]) => `${k}=${v}`).join(', ')}`;
-
-      const response = await this.agentExecutor.invoke({
-        input: `Send this rebalancing notification to the dashboard topic (${this.env.DASHBOARD_ALERT_TOPIC}): ${notificationMessage}`
-      });
+    return notes.length > 0 ? `startup (${notes.join(', ')})` : 'startup';
+  }
+
+  /**
+   * Fetch alerts published after the persisted cursor from the mirror node and process them in order.
+   * Control messages (PAUSE / RESUME) are applied; rebalance triggers are counted and coalesced into
+   * the single startup rebalance against fresh contract state.
+   */
+  private async catchUpMissedAlerts(topicId: string): Promise<number> {
+    if (!this.alertCursor) {
+      logger.info('📝 No alert cursor found - only new messages from this point forward will be processed');
+      // Start the cursor now so alerts published during a later downtime are not missed
+      this.alertCursor = {
+        topicId,
+        sequenceNumber: 0,
+        consensusTimestamp: Timestamp.fromDate(new Date()).toString(),
+        paused: this.isPaused,
+        updatedAt: new Date().toISOString()
+      };
+      this.alertCursorStore.save(this.alertCursor);
+      return 0;
+    }
 
-      console.log("✅ Dashboard notification sent successfully");
-      console.log(`📄 Response: ${response.output}`);
+    logger.info(`⏪ Catching up on alerts after sequence ${this.alertCursor.sequenceNumber} (${this.alertCursor.consensusTimestamp})...`);
+    const missed = await fetchTopicMessagesSince(topicId, this.alertCursor.consensusTimestamp);
+    logger.info(`📬 ${missed.length} missed alert(s) found`);
+
+    let rebalanceRequests = 0;
+    for (const message of missed) {
+      try {
+        if (await this.handleAlertMessage(message, true)) {
+          rebalanceRequests++;
+        }
+      } catch (error) {
+        logger.error(`❌ Error replaying alert #${message.sequenceNumber}`, { error });
+      }
+    }
+
+    return rebalanceRequests;
+  }
+
+  /**
+   * Process an alert once and advance the persisted cursor past it.
+   * In replay mode rebalances are not executed; the return value reports whether one was requested.
+   */
+  private async handleAlertMessage(message: ReceivedTopicMessage, replay = false): Promise<boolean> {
+    if (this.alertCursor && message.sequenceNumber <= this.alertCursor.sequenceNumber) {
+      logger.info(`⏭️  Skipping alert #${message.sequenceNumber} - already processed`);
+      return false;
+    }
+
+    try {
+      return await this.dispatchAlert(message, replay);
+    } finally {
+      this.advanceAlertCursor(message);
+    }
+  }
 
+  /**
+   * Persist the cursor; messages handled concurrently never move it backwards
+   */
+  private advanceAlertCursor(message: ReceivedTopicMessage): void {
+    if (this.alertCursor && message.sequenceNumber <= this.alertCursor.sequenceNumber) {
+      return;
+    }
+
+    this.alertCursor = {
+      topicId: this.env.BALANCER_ALERT_TOPIC!,
+      sequenceNumber: message.sequenceNumber,
+      consensusTimestamp: message.consensusTimestamp,
+      paused: this.isPaused,
+      updatedAt: new Date().toISOString()
+    };
+
+    try {
+      this.alertCursorStore.save(this.alertCursor);
     } catch (error) {
-      console.error("❌ Failed to send dashboard notification:", error);
+      logger.error('❌ Failed to persist alert cursor', { error });
     }
   }
 
+  /**
+   * Validate a topic message against the alert protocol and dispatch it
+   */
+  private async dispatchAlert(message: ReceivedTopicMessage, replay: boolean): Promise<boolean> {
+    logger.info(replay ? '⏪ Replaying missed topic message' : '🚨 New topic message received!');
+    logger.info(`🕒 Timestamp: ${consensusTimestampToIso(message.consensusTimestamp)} (sequence ${message.sequenceNumber})`);
+
+    const parsed = parseAlertMessage(message.contents);
+    if (!parsed.ok) {
+      await this.rejectAlert(message, `Malformed alert: ${parsed.error}`);
+      return false;
+    }
+
+    const alert = parsed.message;
+    const auth = this.alertAuthenticator.authenticate(alert, message.payer, message.consensusTimestamp, message.sequenceNumber);
+    if (!auth.ok) {
+      await this.rejectAlert(message, `Unauthenticated ${alert.type}: ${auth.error}`, alert);
+      return false;
+    }
+
+    logger.info(`📨 ${alert.type} from ${alert.sender} (${auth.method} ${auth.signer})${alert.proposalId ? ` proposal ${alert.proposalId}` : ''}`);
+
+    switch (alert.type) {
+      case 'RATIO_UPDATE':
+        if (!(await this.checkRatioUpdate(alert))) return false;
+        if (replay) return true;
+        logger.info('🚨 Ratio update confirmed on-chain - executing rebalancing...');
+        await this.executeRebalancing({ trigger: `RATIO_UPDATE ${alert.proposalId}` });
+        logger.info('✅ Rebalancing completed in response to ratio update');
+        return true;
+
+      case 'FORCE_REBALANCE':
+        if (replay) return true;
+        logger.info(`🚨 Forced rebalance requested${alert.reason ? `: ${alert.reason}` : ''}`);
+        await this.executeRebalancing({ trigger: 'FORCE_REBALANCE' });
+        logger.info('✅ Rebalancing completed in response to topic alert');
+        return true;
+
+      case 'PAUSE':
+        this.isPaused = true;
+        logger.info(`⏸️  Agent paused${alert.reason ? `: ${alert.reason}` : ''}`);
+        break;
+
+      case 'RESUME':
+        this.isPaused = false;
+        logger.info(`▶️  Agent resumed${alert.reason ? `: ${alert.reason}` : ''}`);
+        break;
+
+      case 'STATUS_REQUEST':
+        if (replay) {
+          logger.info('⏭️  Skipping stale STATUS_REQUEST');
+          break;
+        }
+        await this.publishStatus(alert);
+        break;
+    }
+    return false;
+  }
+
+  /**
+   * Log a rejected alert and, if ALERT_REPORT_REJECTIONS is enabled, report it to the dashboard topic
+   */
+  private async rejectAlert(message: ReceivedTopicMessage, reason: string, alert?: AlertMessage): Promise<void> {
+    const payer = message.payer;
+    logger.warn(`🚫 Rejected alert #${message.sequenceNumber} (payer ${payer || 'unknown'}): ${reason}`);
+
+    if (this.env.ALERT_REPORT_REJECTIONS !== 'true') {
+      return;
+    }
+
+    await this.dashboardPublisher?.publish({
+      type: 'ALERT_REJECTED',
+      alertTopic: this.env.BALANCER_ALERT_TOPIC,
+      sequenceNumber: message.sequenceNumber.toString(),
+      consensusTimestamp: message.consensusTimestamp,
+      payer,
+      alertType: alert?.type,
+      claimedSender: alert?.sender,
+      reason
+    });
+  }
+
+  /**
+   * Check that the ratios announced in a RATIO_UPDATE match getCurrentRatios.
+   * The contract stays the source of truth; an update that is not yet on-chain is rejected.
+   */
+  private async checkRatioUpdate(alert: RatioUpdateAlert): Promise<boolean> {
+    const basketSymbols = this.tokenRegistry.getTokens().map(token => token.symbol);
+    const unknownSymbols = Object.keys(alert.ratios).filter(symbol => !basketSymbols.includes(symbol));
+    if (unknownSymbols.length > 0) {
+      logger.warn(`🚫 Rejected RATIO_UPDATE ${alert.proposalId}: unknown tokens ${unknownSymbols.join(', ')}`);
+      return false;
+    }
+
+    const onChainRatios = await fetchBasketRatios(this.client!, this.env.LYNX_CONTRACT_ID!, this.tokenRegistry);
+    const mismatches = Object.entries(alert.ratios)
+      .filter(([symbol, ratio]) => onChainRatios[symbol] !== ratio)
+      .map(([symbol, ratio]) => `${symbol} announced ${ratio}, on-chain ${onChainRatios[symbol]}`);
+
+    if (mismatches.length > 0) {
+      logger.warn(`🚫 Rejected RATIO_UPDATE ${alert.proposalId}: ratios do not match the contract (${mismatches.join('; ')})`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Answer a STATUS_REQUEST on the dashboard topic
+   */
+  private async publishStatus(request: AlertMessage): Promise<void> {
+    const status = {
+      running: this.isRunning,
+      paused: this.isPaused,
+      rebalancingInProgress: this.triggerQueue.isRunning(),
+      triggerQueue: this.triggerQueue.getStatus(),
+      subscription: this.getSubscriptionStatus(),
+      executionMode: this.executionMode,
+      network: getHederaNetwork()
+    };
+    logger.info('📊 Agent status', status);
+
+    if (!this.dashboardPublisher) {
+      logger.warn('⚠️  Status report not published - dashboard topic not configured');
+      return;
+    }
+
+    await this.dashboardPublisher.publish({
+      type: 'STATUS',
+      inReplyTo: request.proposalId,
+      requestedBy: request.sender,
+      ...status
+    });
+  }
+
+  /**
+   * Publish a HEARTBEAT event with the current contract state every DASHBOARD_HEARTBEAT_INTERVAL_MS
+   * (default 5 minutes, 0 disables)
+   */
+  private startHeartbeat(): void {
+    const intervalMs = parseInt(this.env.DASHBOARD_HEARTBEAT_INTERVAL_MS || '300000');
+    if (!this.dashboardPublisher || intervalMs <= 0) return;
+
+    this.heartbeatTimer = setInterval(async () => {
+      let state: ContractStateSnapshot | undefined;
+      try {
+        const stateManager = new ContractStateManager(this.tokenRegistry);
+        try {
+          state = this.observeContractState(await stateManager.fetchContractState());
+        } finally {
+          stateManager.close();
+        }
+      } catch (error) {
+        logger.error('❌ Failed to fetch contract state for heartbeat', { error });
+      }
+
+      await this.dashboardPublisher?.publish({
+        type: 'HEARTBEAT',
+        running: this.isRunning,
+        paused: this.isPaused,
+        rebalancingInProgress: this.triggerQueue.isRunning(),
+        triggerQueue: this.triggerQueue.getStatus(),
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+        subscription: this.getSubscriptionStatus(),
+        state
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Poll for drift on DRIFT_POLL_INTERVAL_MS or DRIFT_POLL_CRON, if configured
+   */
+  private startDriftPolling(): void {
+    const config = DriftScheduler.configFromEnvironment();
+    if (!config) {
+      logger.info('⏲️  Drift polling disabled (set DRIFT_POLL_INTERVAL_MS or DRIFT_POLL_CRON to enable)');
+      return;
+    }
+
+    this.driftScheduler = new DriftScheduler(config, () => this.checkDrift(), () => this.triggerQueue.isRunning());
+    this.driftScheduler.start();
+  }
+
+  /**
+   * Fetch the contract state and trigger a rebalance only if a token drifted beyond tolerance.
+   * Catches supply changes from LYNX mints and burns, which are not announced on the alert topic.
+   */
+  private async checkDrift(): Promise<void> {
+    if (this.isPaused) {
+      logger.info('⏸️  Agent is paused - skipping drift check');
+      return;
+    }
+
+    logger.info('🔍 Scheduled drift check...');
+    const stateManager = new ContractStateManager(this.tokenRegistry);
+    let contractState;
+    try {
+      contractState = await stateManager.fetchContractState();
+    } finally {
+      stateManager.close();
+    }
+
+    this.observeContractState(contractState);
+
+    const analyses = contractState.basket.map(asset => analyzeTokenRatio({
+      tokenSymbol: asset.symbol,
+      currentBalance: asset.balance,
+      targetRatio: asset.ratio,
+      lynxTotalSupply: contractState.lynxTotalSupply
+    }));
+    analyses.forEach(analysis => this.metrics.set('lynx_balancer_token_drift_percent', analysis.diffPercent, { token: analysis.tokenSymbol }));
+    const drifted = analyses.filter(analysis => analysis.needsRebalancing);
+
+    if (drifted.length === 0) {
+      logger.info('✅ Drift check: all tokens within tolerance');
+      return;
+    }
+
+    const summary = drifted.map(analysis => `${analysis.tokenSymbol} ${analysis.diffPercent.toFixed(2)}%`).join(', ');
+    logger.info(`⚠️  Drift detected: ${summary}`);
+    await this.executeRebalancing({ trigger: `drift (${summary})` });
+  }
+
+  /**
+   * Remember the latest contract state for /status
+   */
+  private observeContractState(state: ContractState): ContractStateSnapshot {
+    const snapshot = snapshotContractState(state);
+    this.lastContractState = { ...snapshot, fetchedAt: state.lastUpdated.toISOString() };
+    return snapshot;
+  }
+
+  /**
+   * Serve /healthz, /status and /metrics if STATUS_PORT is set
+   */
+  private async startStatusServer(): Promise<void> {
+    const config = StatusServer.configFromEnvironment();
+    if (!config) {
+      logger.info('🩺 Status server disabled (set STATUS_PORT to enable)');
+      return;
+    }
+
+    this.statusServer = new StatusServer(config, {
+      health: () => this.checkHealth(),
+      status: () => this.getStatus(),
+      metrics: () => {
+        const queue = this.triggerQueue.getStatus();
+        this.metrics.set('lynx_balancer_rebalancing_in_progress', queue.running ? 1 : 0);
+        this.metrics.set('lynx_balancer_trigger_queue_depth', queue.queueDepth);
+        this.metrics.set('lynx_balancer_uptime_seconds', Math.round((Date.now() - this.startedAt) / 1000));
+        return this.metrics.render();
+      }
+    });
+    await this.statusServer.start();
+  }
+
+  /**
+   * Client connectivity (a free balance query, cached for 15 seconds) and subscription liveness
+   */
+  private async checkHealth(): Promise<HealthReport> {
+    const checkedAt = this.clientHealth?.checkedAt ? Date.parse(this.clientHealth.checkedAt) : 0;
+    if (Date.now() - checkedAt > 15_000) {
+      try {
+        if (!this.client) {
+          throw new Error('Client not initialized');
+        }
+        await new AccountBalanceQuery().setAccountId(this.env.HEDERA_ACCOUNT_ID!).execute(this.client);
+        this.clientHealth = { connected: true, checkedAt: new Date().toISOString() };
+      } catch (error) {
+        this.clientHealth = { connected: false, checkedAt: new Date().toISOString(), error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    const status = this.getSubscriptionStatus();
+    const subscription = { ...status, active: this.isRunning && status.state === 'live' };
+    return { healthy: this.clientHealth!.connected && subscription.active, client: this.clientHealth!, subscription };
+  }
+
+  /**
+   * State of the alert topic subscription (stopped until monitoring starts)
+   */
+  private getSubscriptionStatus(): SubscriptionStatus {
+    return this.alertSubscription?.getStatus() ?? {
+      state: 'stopped',
+      topicId: null,
+      subscribedAt: null,
+      lastMessageAt: null,
+      lastPingAt: null,
+      lastSeenTimestamp: null,
+      reconnects: 0,
+      nextRetryAt: null
+    };
+  }
+
+  /**
+   * Agent state for /status
+   */
+  private getStatus(): object {
+    const run = this.lastRun;
+    return {
+      running: this.isRunning,
+      shuttingDown: this.shuttingDown,
+      paused: this.isPaused,
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      network: getHederaNetwork(),
+      executionMode: this.executionMode,
+      signingMode: this.scheduledExecution ? 'scheduled' : 'operator',
+      rebalancing: { locked: this.triggerQueue.isRunning(), ...this.triggerQueue.getStatus() },
+      nextScheduledCheck: this.driftScheduler?.nextCheckAt()?.toISOString() ?? null,
+      subscription: this.getSubscriptionStatus(),
+      contractState: this.lastContractState ?? null,
+      lastRun: run ? {
+        runId: run.runId,
+        trigger: run.trigger,
+        outcome: run.outcome,
+        startedAt: run.startedAt,
+        completedAt: run.completedAt,
+        durationMs: run.durationMs,
+        error: run.error,
+        totalFee: run.totalFee,
+        totalGasUsed: run.totalGasUsed,
+        adjustments: run.adjustments
+      } : null
+    };
+  }
+
   /**
    * Utility function for sleeping
    */
@@ -493,15 +1397,51 @@ Contract state updated:
   }
 
   /**
-   * Stop the balancer agent
+   * Stop accepting triggers: alerts, drift checks and queued follow-up passes
    */
-  async stop(): Promise<void> {
-    console.log("🛑 Stopping Lynx Balancer Agent...");
-    
+  private stopAcceptingTriggers(): void {
     this.isRunning = false;
-    // TODO: Re-enable when ConversationalAgent is working
-    // await this.agentMessaging.stop();
-    
-    console.log("✅ Lynx Balancer Agent stopped");
+    this.shuttingDown = true;
+    // A plan awaiting approval would otherwise hold the drain until the approval timeout
+    this.shutdownController.abort();
+    this.triggerQueue.close();
+    this.alertSubscription?.stop();
+    this.driftScheduler?.stop();
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  /**
+   * Stop accepting triggers and wait for the in-flight run, which ends after its current step
+   */
+  async drain(): Promise<void> {
+    this.stopAcceptingTriggers();
+    if (this.triggerQueue.isRunning()) {
+      logger.info('⏳ Waiting for the in-flight rebalancing run to finish its current step...');
+    }
+    await this.triggerQueue.whenIdle();
   }
-} 
\ No newline at end of file
+
+  /**
+   * Stop the balancer agent and close its Hedera client (does not wait for an in-flight run; see drain())
+   */
+  async stop(): Promise<void> {
+    logger.info('🛑 Stopping Lynx Balancer Agent...');
+
+    this.stopAcceptingTriggers();
+    this.shutdownCoordinator?.uninstall();
+    await this.statusServer?.stop();
+    this.client?.close();
+
+    logger.info('✅ Lynx Balancer Agent stopped');
+  }
+} 
+
+/**
+ * Format a "seconds.nanos" consensus timestamp for logs
+ */
+function consensusTimestampToIso(value: string): string {
+  return parseConsensusTimestamp(value).toDate().toISOString();
+}
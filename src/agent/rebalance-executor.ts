@@ -0,0 +1,48 @@
+import { TreasuryTransactions, TreasuryTransactionResult } from '../utils/treasury-transactions.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('tools');
+
+/**
+ * A single token adjustment computed by TokenRatioTool
+ */
+export interface RebalanceStep {
+  tokenSymbol: string;
+  tokenId: string;
+  action: 'withdraw' | 'deposit';
+  amount: TokenAmount;
+}
+
+/**
+ * Rebalance Executor
+ * Executes rebalancing steps directly against the shared transaction layer,
+ * without routing amounts through the LLM.
+ */
+export class RebalanceExecutor {
+  constructor(
+    private transactions: TreasuryTransactions,
+    private contractId: string,
+    private operatorAccountId: string
+  ) {}
+
+  /**
+   * Execute a single rebalancing step
+   */
+  async executeStep(step: RebalanceStep): Promise<TreasuryTransactionResult> {
+    const smallestUnits = step.amount.raw;
+    const isHbar = step.tokenId === 'HBAR';
+
+    logger.info(`⚙️  ${step.action === 'withdraw' ? 'Withdrawing' : 'Depositing'} ${step.amount} ${step.tokenSymbol} (${smallestUnits} smallest units)`);
+
+    if (step.action === 'withdraw') {
+      return isHbar
+        ? this.transactions.withdrawHbar(this.contractId, smallestUnits)
+        : this.transactions.withdrawToken(this.contractId, step.tokenId, smallestUnits, 'Rebalancing');
+    }
+
+    return isHbar
+      ? this.transactions.transferHbar(this.operatorAccountId, this.contractId, smallestUnits)
+      : this.transactions.transferToken(step.tokenId, this.operatorAccountId, this.contractId, smallestUnits);
+  }
+}
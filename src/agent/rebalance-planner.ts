@@ -0,0 +1,193 @@
+import { analyzeTokenRatio } from '../tools/token-ratio-tool.js';
+import { ContractState } from '../utils/contract-state-manager.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import { TokenRegistry } from '../utils/token-registry.js';
+import { RebalanceStep } from './rebalance-executor.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('planner');
+
+/**
+ * A rebalancing step together with the analysis that produced it
+ */
+export interface PlannedStep extends RebalanceStep {
+  amountSmallestUnits: string;
+  contractFunction: 'emergencyWithdrawHbar' | 'adminWithdrawToken' | 'transfer';
+  currentBalance: TokenAmount;
+  requiredBalance: TokenAmount;
+  expectedBalance: TokenAmount; // balance on the contract after the step
+  diffPercent: number;
+}
+
+/**
+ * Per-token entry of a rebalancing plan, including balanced tokens
+ */
+export interface TokenPlanEntry {
+  tokenSymbol: string;
+  targetRatio: number;
+  currentBalance: TokenAmount;
+  requiredBalance: TokenAmount;
+  diffPercent: number;
+  balanceStatus: 'BALANCED' | 'EXCESS' | 'DEFICIT';
+  step: PlannedStep | null;
+}
+
+/**
+ * Full rebalancing plan for a contract state
+ */
+export interface RebalancePlan {
+  createdAt: string;
+  contractId: string;
+  lynxTotalSupply: TokenAmount;
+  tokens: TokenPlanEntry[];
+  steps: PlannedStep[];
+}
+
+/**
+ * Rebalance Planner
+ * Runs the ratio analysis for every token and turns it into a structured plan
+ * that can be reviewed (dry-run) or handed to the RebalanceExecutor.
+ */
+export class RebalancePlanner {
+  constructor(
+    private registry: TokenRegistry,
+    private contractId: string
+  ) {}
+
+  /**
+   * Build a rebalancing plan from the current contract state
+   */
+  async buildPlan(contractState: ContractState): Promise<RebalancePlan> {
+    const entries: TokenPlanEntry[] = [];
+
+    for (const asset of contractState.basket) {
+      const tokenSymbol = asset.symbol;
+      logger.info(`🔍 Processing ${tokenSymbol}...`);
+
+      // Current balance and target ratio for this asset
+      const currentBalance = asset.balance;
+      const targetRatio = asset.ratio;
+
+      const analysis = analyzeTokenRatio({
+        tokenSymbol,
+        currentBalance,
+        targetRatio,
+        lynxTotalSupply: contractState.lynxTotalSupply
+      });
+      logger.info(`📊 ${tokenSymbol} Analysis: ${analysis.analysis}`);
+
+      let step: PlannedStep | null = null;
+      if (analysis.needsRebalancing && analysis.transferParams) {
+        step = this.createStep(tokenSymbol, analysis.transferParams.action, analysis.transferParams.amount, currentBalance, analysis.requiredBalance, analysis.diffPercent);
+      }
+
+      entries.push({
+        tokenSymbol,
+        targetRatio,
+        currentBalance,
+        requiredBalance: analysis.requiredBalance,
+        diffPercent: analysis.diffPercent,
+        balanceStatus: analysis.balanceStatus,
+        step
+      });
+    }
+
+    return {
+      createdAt: new Date().toISOString(),
+      contractId: this.contractId,
+      lynxTotalSupply: contractState.lynxTotalSupply,
+      tokens: entries,
+      steps: entries.filter(entry => entry.step !== null).map(entry => entry.step!)
+    };
+  }
+
+  /**
+   * Follow-up step that closes the remaining gap between an observed balance and the
+   * step's required balance, or null if the balance already matches exactly
+   */
+  remainingStep(step: PlannedStep, actualBalance: TokenAmount): PlannedStep | null {
+    const gap = step.requiredBalance.sub(actualBalance);
+    if (gap.isZero()) {
+      return null;
+    }
+
+    const difference = gap.abs();
+    const diffPercent = step.requiredBalance.isZero()
+      ? 0
+      : Number((difference.raw * 10000n) / step.requiredBalance.raw) / 100;
+
+    return this.createStep(step.tokenSymbol, gap.raw > 0n ? 'deposit' : 'withdraw', difference, actualBalance, step.requiredBalance, diffPercent);
+  }
+
+  /**
+   * Same step with a smaller amount (e.g. a deposit reduced to what the operator can fund)
+   */
+  resizeStep(step: PlannedStep, amount: TokenAmount): PlannedStep {
+    return this.createStep(step.tokenSymbol, step.action, amount, step.currentBalance, step.requiredBalance, step.diffPercent);
+  }
+
+  /**
+   * Create a planned step for a token that is out of balance
+   */
+  private createStep(
+    tokenSymbol: string,
+    action: 'withdraw' | 'deposit',
+    amount: TokenAmount,
+    currentBalance: TokenAmount,
+    requiredBalance: TokenAmount,
+    diffPercent: number
+  ): PlannedStep {
+    const config = this.registry.get(tokenSymbol);
+    if (config.decimals !== amount.decimals) {
+      throw new Error(`Decimals mismatch for ${tokenSymbol}: configured ${config.decimals}, balance has ${amount.decimals}`);
+    }
+
+    let contractFunction: PlannedStep['contractFunction'] = 'transfer';
+    if (action === 'withdraw') {
+      contractFunction = config.tokenId === 'HBAR' ? 'emergencyWithdrawHbar' : 'adminWithdrawToken';
+    }
+
+    return {
+      tokenSymbol,
+      tokenId: config.tokenId,
+      action,
+      amount,
+      amountSmallestUnits: amount.raw.toString(),
+      contractFunction,
+      currentBalance,
+      requiredBalance,
+      expectedBalance: action === 'withdraw' ? currentBalance.sub(amount) : currentBalance.add(amount),
+      diffPercent
+    };
+  }
+
+  /**
+   * Format a plan as a plain-text table for operator review
+   */
+  static formatTable(plan: RebalancePlan): string {
+    const header = ['Token', 'Ratio', 'Current', 'Required', 'Diff %', 'Action', 'Amount', 'Smallest Units', 'Function', 'Expected After'];
+    const rows = plan.tokens.map(entry => [
+      entry.tokenSymbol,
+      String(entry.targetRatio),
+      String(entry.currentBalance),
+      String(entry.requiredBalance),
+      entry.diffPercent.toFixed(2),
+      entry.step ? entry.step.action : 'none',
+      entry.step ? String(entry.step.amount) : '-',
+      entry.step ? entry.step.amountSmallestUnits : '-',
+      entry.step ? entry.step.contractFunction : '-',
+      entry.step ? String(entry.step.expectedBalance) : String(entry.currentBalance)
+    ]);
+
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join(' | ').trimEnd();
+
+    return [
+      `📋 Rebalancing plan for ${plan.contractId} (LYNX supply ${plan.lynxTotalSupply}, ${plan.createdAt})`,
+      formatRow(header),
+      widths.map(width => '-'.repeat(width)).join('-+-'),
+      ...rows.map(formatRow),
+      `${plan.steps.length} step(s) planned`
+    ].join('\n');
+  }
+}
@@ -0,0 +1,128 @@
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('agent');
+
+/**
+ * A request to rebalance (startup, alert, schedule, ...)
+ */
+export interface RebalanceTrigger {
+  reason: string;
+  requestedAt: Date;
+}
+
+/**
+ * Queue state exposed in status reports and heartbeats
+ */
+export interface TriggerQueueStatus {
+  running: boolean;
+  queueDepth: number;
+  pendingTriggers: string[];
+  lastTrigger: { reason: string; requestedAt: string } | null;
+  lastRunStartedAt: string | null;
+  lastRunCompletedAt: string | null;
+  totalRuns: number;
+  coalescedTriggers: number;
+}
+
+/**
+ * Rebalance Trigger Queue
+ * Serializes rebalancing runs. Triggers that arrive while a run is in flight are recorded
+ * and coalesced into one follow-up pass, which re-reads the contract state, so the final
+ * on-chain balances always reflect the latest ratios instead of dropping mid-run alerts.
+ */
+export class RebalanceTriggerQueue {
+  private pending: RebalanceTrigger[] = [];
+  private activeRun?: Promise<void>;
+  private lastTrigger?: RebalanceTrigger;
+  private lastRunStartedAt?: Date;
+  private lastRunCompletedAt?: Date;
+  private totalRuns = 0;
+  private coalescedTriggers = 0;
+  private closed = false;
+
+  constructor(private runner: (triggers: RebalanceTrigger[]) => Promise<void>) {}
+
+  /**
+   * Request a rebalance. Resolves once a run covering this trigger has finished.
+   */
+  async request(reason: string): Promise<void> {
+    if (this.closed) {
+      logger.info(`🚫 Shutting down - ignoring trigger "${reason}"`);
+      return;
+    }
+
+    const trigger = { reason, requestedAt: new Date() };
+    this.lastTrigger = trigger;
+    this.pending.push(trigger);
+
+    if (this.activeRun) {
+      logger.info(`📥 Rebalancing in progress - queued "${reason}" (queue depth ${this.pending.length})`);
+      return this.activeRun;
+    }
+
+    this.activeRun = this.drain();
+    return this.activeRun;
+  }
+
+  /**
+   * Run until no triggers are pending; everything queued during a run becomes one follow-up pass
+   */
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0);
+      if (batch.length > 1) {
+        this.coalescedTriggers += batch.length - 1;
+        logger.info(`🔗 Coalescing ${batch.length} triggers into one pass: ${batch.map(trigger => trigger.reason).join(', ')}`);
+      }
+
+      this.lastRunStartedAt = new Date();
+      try {
+        await this.runner(batch);
+      } catch (error) {
+        logger.error('❌ Rebalancing run failed', { error });
+      } finally {
+        this.lastRunCompletedAt = new Date();
+        this.totalRuns++;
+      }
+    }
+
+    this.activeRun = undefined;
+  }
+
+  /**
+   * Stop accepting triggers and drop the pending ones; the active run is left to finish
+   */
+  close(): void {
+    this.closed = true;
+    if (this.pending.length > 0) {
+      logger.info(`🚫 Dropping ${this.pending.length} queued trigger(s): ${this.pending.map(trigger => trigger.reason).join(', ')}`);
+      this.pending = [];
+    }
+  }
+
+  /**
+   * Resolves once no run is active
+   */
+  whenIdle(): Promise<void> {
+    return this.activeRun ?? Promise.resolve();
+  }
+
+  isRunning(): boolean {
+    return this.activeRun !== undefined;
+  }
+
+  getStatus(): TriggerQueueStatus {
+    return {
+      running: this.isRunning(),
+      queueDepth: this.pending.length,
+      pendingTriggers: this.pending.map(trigger => trigger.reason),
+      lastTrigger: this.lastTrigger
+        ? { reason: this.lastTrigger.reason, requestedAt: this.lastTrigger.requestedAt.toISOString() }
+        : null,
+      lastRunStartedAt: this.lastRunStartedAt?.toISOString() ?? null,
+      lastRunCompletedAt: this.lastRunCompletedAt?.toISOString() ?? null,
+      totalRuns: this.totalRuns,
+      coalescedTriggers: this.coalescedTriggers
+    };
+  }
+}
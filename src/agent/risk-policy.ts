@@ -0,0 +1,363 @@
+import { ContractState } from '../utils/contract-state-manager.js';
+import { RiskLedger } from '../utils/risk-ledger.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import { TokenRegistry } from '../utils/token-registry.js';
+import { TreasuryTransactionResult } from '../utils/treasury-transactions.js';
+import { PlannedStep, RebalancePlanner } from './rebalance-planner.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Fractions are applied to bigint amounts with six decimal places of precision
+const FRACTION_SCALE = 1_000_000;
+
+export type RiskLimitName =
+  | 'MAX_MOVE_PER_TOKEN'
+  | 'MAX_MOVE_PERCENT'
+  | 'MAX_TX_PER_HOUR'
+  | 'DAILY_NOTIONAL_CAP'
+  | 'MAX_RUN_TREASURY_PERCENT';
+
+/**
+ * Configured risk limits; every limit is optional
+ */
+export interface RiskLimits {
+  maxMovePerToken: Record<string, TokenAmount>; // absolute cap per token per run
+  maxMovePercent?: number; // cap per token per run, % of the larger of current and required balance
+  maxTransactionsPerHour?: number;
+  dailyNotionalCap?: number; // in the unit of the reference prices
+  maxRunTreasuryPercent?: number; // hard stop for a run moving more than this share of treasury value
+  referencePrices: Record<string, number>;
+  violationAction: 'scale' | 'abort';
+}
+
+/**
+ * A limit that a plan or a single transaction would exceed
+ */
+export interface RiskViolation {
+  limit: RiskLimitName;
+  tokenSymbol?: string;
+  message: string;
+}
+
+/**
+ * Outcome of checking a plan against the risk limits
+ * - allow: no limit is exceeded
+ * - scale: steps were reduced or dropped to fit the limits
+ * - abort: nothing may be executed in this run
+ */
+export interface RiskEvaluation {
+  decision: 'allow' | 'scale' | 'abort';
+  steps: PlannedStep[];
+  violations: RiskViolation[];
+}
+
+/**
+ * Amount a single transaction may move right now
+ */
+export interface RiskAuthorization {
+  amount: TokenAmount; // zero when the transaction must not be submitted
+  violations: RiskViolation[];
+}
+
+/**
+ * Risk Policy
+ * Caps how much the agent may move per token per run, per hour (transaction count) and per
+ * day (notional value), and stops a run outright when it would move too large a share of the
+ * treasury. Plans are checked as a whole by evaluate(); every submission - including retries
+ * and LLM tool calls - goes through authorize() and, once submitted, record(). Failed
+ * submissions count toward the hourly limit too, and ambiguous ones (which may have moved
+ * funds) toward the notional limits as well.
+ */
+export class RiskPolicy {
+  // Remaining allowance of each capped token in the run in progress; uncapped tokens are not tracked
+  private runAllowance?: Map<string, TokenAmount>;
+
+  constructor(
+    private readonly limits: RiskLimits,
+    private readonly ledger: RiskLedger = new RiskLedger()
+  ) {}
+
+  /**
+   * Read the RISK_* variables. Amounts and prices are "SYMBOL=value" lists.
+   */
+  static fromEnvironment(registry: TokenRegistry, env: NodeJS.ProcessEnv = process.env): RiskPolicy {
+    const maxMovePerToken: Record<string, TokenAmount> = {};
+    for (const [symbol, value] of Object.entries(parseSymbolList(env.RISK_MAX_MOVE_PER_TOKEN, 'RISK_MAX_MOVE_PER_TOKEN'))) {
+      maxMovePerToken[symbol] = TokenAmount.fromHuman(value, registry.get(symbol).decimals);
+    }
+
+    const referencePrices: Record<string, number> = {};
+    for (const [symbol, value] of Object.entries(parseSymbolList(env.RISK_REFERENCE_PRICES, 'RISK_REFERENCE_PRICES'))) {
+      registry.get(symbol);
+      referencePrices[symbol] = parsePositive(value, `RISK_REFERENCE_PRICES price for ${symbol}`)!;
+    }
+
+    const violationAction = (env.RISK_VIOLATION_ACTION || 'scale').trim().toLowerCase();
+    if (violationAction !== 'scale' && violationAction !== 'abort') {
+      throw new Error(`RISK_VIOLATION_ACTION must be "scale" or "abort", got "${env.RISK_VIOLATION_ACTION}"`);
+    }
+
+    const limits: RiskLimits = {
+      maxMovePerToken,
+      maxMovePercent: parsePositive(env.RISK_MAX_MOVE_PERCENT, 'RISK_MAX_MOVE_PERCENT'),
+      maxTransactionsPerHour: parsePositive(env.RISK_MAX_TX_PER_HOUR, 'RISK_MAX_TX_PER_HOUR'),
+      dailyNotionalCap: parsePositive(env.RISK_DAILY_NOTIONAL_CAP, 'RISK_DAILY_NOTIONAL_CAP'),
+      maxRunTreasuryPercent: parsePositive(env.RISK_MAX_RUN_TREASURY_PERCENT, 'RISK_MAX_RUN_TREASURY_PERCENT'),
+      referencePrices,
+      violationAction
+    };
+
+    // Notional limits cannot value a token without a price, so every basket token needs one
+    if (limits.dailyNotionalCap !== undefined || limits.maxRunTreasuryPercent !== undefined) {
+      const unpriced = registry.getTokens().filter(token => referencePrices[token.symbol] === undefined);
+      if (unpriced.length > 0) {
+        throw new Error(`RISK_REFERENCE_PRICES is missing prices for ${unpriced.map(token => token.symbol).join(', ')}`);
+      }
+    }
+
+    return new RiskPolicy(limits);
+  }
+
+  /**
+   * Check a plan against all limits and start tracking the run's per-token allowance.
+   * Call endRun() when the run has finished.
+   */
+  evaluate(steps: PlannedStep[], state: ContractState, planner: RebalancePlanner): RiskEvaluation {
+    const violations: RiskViolation[] = [];
+    const caps = new Map<string, TokenAmount>();
+    let allowed = [...steps];
+
+    // Hard stop: the run as planned would move too much of the treasury
+    if (this.limits.maxRunTreasuryPercent !== undefined) {
+      const treasuryValue = state.basket.reduce((total, asset) => total + (this.notional(asset.symbol, asset.balance) ?? 0), 0);
+      const runValue = steps.reduce((total, step) => total + (this.notional(step.tokenSymbol, step.amount) ?? 0), 0);
+      const runPercent = treasuryValue > 0 ? (runValue / treasuryValue) * 100 : 0;
+      if (runPercent > this.limits.maxRunTreasuryPercent) {
+        violations.push({
+          limit: 'MAX_RUN_TREASURY_PERCENT',
+          message: `run would move ${runPercent.toFixed(2)}% of treasury value (limit ${this.limits.maxRunTreasuryPercent}%)`
+        });
+        return this.finish('abort', [], violations);
+      }
+    }
+
+    // Per-token caps
+    allowed = allowed.flatMap(step => {
+      const asset = state.basket.find(entry => entry.symbol === step.tokenSymbol);
+      const cap = this.tokenCap(step.tokenSymbol, step.amount.decimals, asset ? [asset.balance, step.requiredBalance] : []);
+      if (cap) {
+        caps.set(step.tokenSymbol, cap.amount);
+      }
+      if (!cap || step.amount.compare(cap.amount) <= 0) {
+        return [step];
+      }
+
+      violations.push({
+        limit: cap.limit,
+        tokenSymbol: step.tokenSymbol,
+        message: `${step.tokenSymbol} ${step.action} of ${step.amount} exceeds the per-run cap of ${cap.amount}`
+      });
+      return cap.amount.isZero() ? [] : [planner.resizeStep(step, cap.amount)];
+    });
+
+    // Hourly transaction count: later steps are dropped
+    if (this.limits.maxTransactionsPerHour !== undefined) {
+      const remaining = Math.max(0, this.limits.maxTransactionsPerHour - this.ledger.countSince(HOUR_MS));
+      if (allowed.length > remaining) {
+        violations.push({
+          limit: 'MAX_TX_PER_HOUR',
+          message: `${allowed.length} transaction(s) planned but only ${remaining} of ${this.limits.maxTransactionsPerHour} per hour remain`
+        });
+        allowed = allowed.slice(0, remaining);
+      }
+    }
+
+    // Daily notional cap: steps are kept in order until the remaining budget runs out
+    if (this.limits.dailyNotionalCap !== undefined) {
+      let remaining = this.limits.dailyNotionalCap - this.ledger.notionalSince(DAY_MS);
+      allowed = allowed.flatMap(step => {
+        const value = this.notional(step.tokenSymbol, step.amount) ?? 0;
+        if (value <= remaining) {
+          remaining -= value;
+          return [step];
+        }
+
+        violations.push({
+          limit: 'DAILY_NOTIONAL_CAP',
+          tokenSymbol: step.tokenSymbol,
+          message: `${step.tokenSymbol} ${step.action} worth ${value.toFixed(2)} exceeds the remaining daily notional of ${Math.max(0, remaining).toFixed(2)} (cap ${this.limits.dailyNotionalCap})`
+        });
+        if (remaining <= 0) {
+          return [];
+        }
+
+        const reduced = scaleAmount(step.amount, remaining / value);
+        remaining = 0;
+        return reduced.isZero() ? [] : [planner.resizeStep(step, reduced)];
+      });
+    }
+
+    if (violations.length === 0) {
+      return this.finish('allow', allowed, violations, caps);
+    }
+    if (this.limits.violationAction === 'abort' || allowed.length === 0) {
+      return this.finish('abort', [], violations, caps);
+    }
+    return this.finish('scale', allowed, violations, caps);
+  }
+
+  /**
+   * Largest part of a single transaction that may be submitted now. During a run the amount of a
+   * capped token is limited by the run's remaining allowance for it; outside a run by the absolute cap.
+   */
+  authorize(tokenSymbol: string, amount: TokenAmount): RiskAuthorization {
+    const violations: RiskViolation[] = [];
+    let allowed = amount;
+
+    const runCap = this.runAllowance?.get(tokenSymbol);
+    const cap = this.runAllowance
+      ? runCap && { limit: 'MAX_MOVE_PER_TOKEN' as const, amount: runCap }
+      : this.tokenCap(tokenSymbol, amount.decimals, []);
+    if (cap && allowed.compare(cap.amount) > 0) {
+      violations.push({ limit: cap.limit, tokenSymbol, message: `${tokenSymbol} amount ${amount} exceeds the remaining per-run allowance of ${cap.amount}` });
+      allowed = cap.amount;
+    }
+
+    if (this.limits.maxTransactionsPerHour !== undefined && this.ledger.countSince(HOUR_MS) >= this.limits.maxTransactionsPerHour) {
+      violations.push({ limit: 'MAX_TX_PER_HOUR', message: `hourly limit of ${this.limits.maxTransactionsPerHour} transaction(s) reached` });
+      allowed = TokenAmount.zero(amount.decimals);
+    }
+
+    const value = this.notional(tokenSymbol, allowed);
+    if (this.limits.dailyNotionalCap !== undefined && value !== undefined && value > 0) {
+      const remaining = this.limits.dailyNotionalCap - this.ledger.notionalSince(DAY_MS);
+      if (value > remaining) {
+        violations.push({ limit: 'DAILY_NOTIONAL_CAP', tokenSymbol, message: `${tokenSymbol} amount worth ${value.toFixed(2)} exceeds the remaining daily notional of ${Math.max(0, remaining).toFixed(2)}` });
+        allowed = remaining > 0 ? scaleAmount(allowed, remaining / value) : TokenAmount.zero(amount.decimals);
+      }
+    }
+
+    return { amount: allowed, violations };
+  }
+
+  /**
+   * Count a submission against the limits: every attempt toward the hourly transaction limit,
+   * and the amount toward the notional cap and the run allowance unless the last attempt
+   * certainly did not move it. Without a result the transaction is taken to have succeeded.
+   */
+  record(
+    tokenSymbol: string,
+    action: 'withdraw' | 'deposit',
+    amount: TokenAmount,
+    result: Pick<TreasuryTransactionResult, 'success' | 'failure' | 'attempts'> = { success: true, attempts: 1 }
+  ): void {
+    const moved = result.success || result.failure === 'ambiguous';
+    for (let attempt = 1; attempt <= result.attempts; attempt++) {
+      const counted = moved && attempt === result.attempts;
+      this.ledger.record({
+        tokenSymbol,
+        action,
+        amount: amount.toHuman(),
+        notional: counted ? this.notional(tokenSymbol, amount) ?? null : 0,
+        outcome: attempt < result.attempts ? 'failed' : result.success ? 'succeeded' : result.failure === 'ambiguous' ? 'ambiguous' : 'failed'
+      });
+    }
+    if (!moved) {
+      return;
+    }
+
+    const allowance = this.runAllowance?.get(tokenSymbol);
+    if (allowance) {
+      const left = allowance.sub(amount);
+      this.runAllowance!.set(tokenSymbol, left.raw > 0n ? left : TokenAmount.zero(left.decimals));
+    }
+  }
+
+  endRun(): void {
+    this.runAllowance = undefined;
+  }
+
+  describe(): string {
+    const parts: string[] = [];
+    const caps = Object.entries(this.limits.maxMovePerToken);
+    if (caps.length > 0) parts.push(`max per run ${caps.map(([symbol, amount]) => `${symbol}=${amount}`).join(', ')}`);
+    if (this.limits.maxMovePercent !== undefined) parts.push(`max ${this.limits.maxMovePercent}% per token per run`);
+    if (this.limits.maxTransactionsPerHour !== undefined) parts.push(`${this.limits.maxTransactionsPerHour} tx/hour`);
+    if (this.limits.dailyNotionalCap !== undefined) parts.push(`daily notional cap ${this.limits.dailyNotionalCap}`);
+    if (this.limits.maxRunTreasuryPercent !== undefined) parts.push(`hard stop above ${this.limits.maxRunTreasuryPercent}% of treasury per run`);
+    return parts.length > 0 ? `${parts.join('; ')} (on violation: ${this.limits.violationAction})` : 'no limits configured';
+  }
+
+  /**
+   * Start the run's allowance: the cap evaluated for each planned token, and the absolute cap
+   * for any other token that has one
+   */
+  private finish(
+    decision: RiskEvaluation['decision'],
+    steps: PlannedStep[],
+    violations: RiskViolation[],
+    caps = new Map<string, TokenAmount>()
+  ): RiskEvaluation {
+    this.runAllowance = new Map([...Object.entries(this.limits.maxMovePerToken), ...caps]);
+    return { decision, steps, violations };
+  }
+
+  /**
+   * Tightest per-run cap for a token; the percentage cap applies to the largest of the given bases
+   */
+  private tokenCap(tokenSymbol: string, decimals: number, bases: TokenAmount[]): { limit: RiskLimitName; amount: TokenAmount } | undefined {
+    let cap: { limit: RiskLimitName; amount: TokenAmount } | undefined;
+    const absolute = this.limits.maxMovePerToken[tokenSymbol];
+    if (absolute) {
+      cap = { limit: 'MAX_MOVE_PER_TOKEN', amount: absolute };
+    }
+
+    if (this.limits.maxMovePercent !== undefined && bases.length > 0) {
+      const base = bases.reduce((largest, amount) => (amount.compare(largest) > 0 ? amount : largest), TokenAmount.zero(decimals));
+      const percentCap = scaleAmount(base, this.limits.maxMovePercent / 100);
+      if (!cap || percentCap.compare(cap.amount) < 0) {
+        cap = { limit: 'MAX_MOVE_PERCENT', amount: percentCap };
+      }
+    }
+    return cap;
+  }
+
+  /**
+   * Value of an amount at its reference price, undefined when the token has no price
+   */
+  notional(tokenSymbol: string, amount: TokenAmount): number | undefined {
+    const price = this.limits.referencePrices[tokenSymbol];
+    return price === undefined ? undefined : amount.toNumber() * price;
+  }
+}
+
+/**
+ * Scale an amount by a fraction, rounding down
+ */
+function scaleAmount(amount: TokenAmount, fraction: number): TokenAmount {
+  return amount.mulDiv(BigInt(Math.floor(fraction * FRACTION_SCALE)), BigInt(FRACTION_SCALE));
+}
+
+function parseSymbolList(value: string | undefined, name: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const item of (value || '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = /^([A-Za-z0-9]+)=(.+)$/.exec(item);
+    if (!match) {
+      throw new Error(`Invalid ${name} entry "${item}": expected SYMBOL=value`);
+    }
+    entries[match[1].toUpperCase()] = match[2].trim();
+  }
+  return entries;
+}
+
+function parsePositive(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return number;
+}
@@ -0,0 +1,123 @@
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('agent');
+
+/**
+ * How long a shutdown waits for the in-flight rebalancing run
+ */
+export interface ShutdownConfig {
+  drainTimeoutMs: number;
+}
+
+/**
+ * What the agent does on shutdown, in order
+ * - drain:          stop accepting triggers and resolve once the in-flight run has ended
+ * - onDrainTimeout: the run did not end in time; record what is known before exiting
+ * - close:          stop servers and subscriptions and close Hedera clients
+ */
+export interface ShutdownHooks {
+  drain(): Promise<void>;
+  onDrainTimeout(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Process exit codes after a signal
+ * - 0:       the in-flight run (if any) ended and everything closed cleanly
+ * - 1:       closing failed
+ * - 2:       the drain timed out; the run was recorded as interrupted
+ * - 128 + n: a second signal forced an immediate exit (130 for SIGINT, 143 for SIGTERM)
+ */
+export const SHUTDOWN_EXIT_CODES = { drained: 0, closeFailed: 1, drainTimedOut: 2 } as const;
+
+const SIGNAL_NUMBERS: Record<'SIGINT' | 'SIGTERM', number> = { SIGINT: 2, SIGTERM: 15 };
+
+/**
+ * Shutdown Coordinator
+ * Handles SIGINT and SIGTERM (sent by Docker and Kubernetes). The first signal drains the agent:
+ * no new triggers are accepted and the current token step is allowed to reach its receipt, up to
+ * the drain timeout. Then clients are closed and the process exits with a code that tells a clean
+ * drain from an interrupted run. A second signal exits immediately.
+ */
+export class ShutdownCoordinator {
+  private shuttingDown = false;
+  private readonly handler = (signal: NodeJS.Signals) => void this.handleSignal(signal as keyof typeof SIGNAL_NUMBERS);
+
+  constructor(
+    private readonly config: ShutdownConfig,
+    private readonly hooks: ShutdownHooks
+  ) {}
+
+  /**
+   * Read SHUTDOWN_DRAIN_TIMEOUT_MS (default 25000, below the 30s Kubernetes grace period)
+   */
+  static configFromEnvironment(env: NodeJS.ProcessEnv = process.env): ShutdownConfig {
+    const drainTimeoutMs = parseInt(env.SHUTDOWN_DRAIN_TIMEOUT_MS || '25000');
+    if (!(drainTimeoutMs >= 0)) {
+      throw new Error(`SHUTDOWN_DRAIN_TIMEOUT_MS must be a non-negative number of milliseconds, got "${env.SHUTDOWN_DRAIN_TIMEOUT_MS}"`);
+    }
+    return { drainTimeoutMs };
+  }
+
+  install(): void {
+    process.on('SIGINT', this.handler);
+    process.on('SIGTERM', this.handler);
+  }
+
+  uninstall(): void {
+    process.off('SIGINT', this.handler);
+    process.off('SIGTERM', this.handler);
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * Drain and close, returning the exit code (does not exit the process)
+   */
+  async shutdown(reason: string): Promise<number> {
+    this.shuttingDown = true;
+    logger.info(`🛑 ${reason} - draining (waiting up to ${this.config.drainTimeoutMs}ms for the in-flight run)...`);
+
+    let exitCode: number = SHUTDOWN_EXIT_CODES.drained;
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), this.config.drainTimeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([this.hooks.drain().then(() => 'drained' as const), timedOut]);
+      if (result === 'timeout') {
+        logger.warn(`⚠️  In-flight run did not finish within ${this.config.drainTimeoutMs}ms - recording it as interrupted`);
+        this.hooks.onDrainTimeout();
+        exitCode = SHUTDOWN_EXIT_CODES.drainTimedOut;
+      }
+    } catch (error) {
+      logger.error('❌ Error while draining', { error });
+      exitCode = SHUTDOWN_EXIT_CODES.closeFailed;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    try {
+      await this.hooks.close();
+    } catch (error) {
+      logger.error('❌ Error while closing', { error });
+      exitCode = SHUTDOWN_EXIT_CODES.closeFailed;
+    }
+
+    return exitCode;
+  }
+
+  private async handleSignal(signal: keyof typeof SIGNAL_NUMBERS): Promise<void> {
+    if (this.shuttingDown) {
+      logger.warn(`⚠️  Received ${signal} again - exiting immediately`);
+      process.exit(128 + SIGNAL_NUMBERS[signal]);
+    }
+
+    const exitCode = await this.shutdown(`Received ${signal}`);
+    logger.info(`👋 Exiting with code ${exitCode}`);
+    process.exit(exitCode);
+  }
+}
@@ -0,0 +1,126 @@
+import { Client } from '@hashgraph/sdk';
+import { JournalTransaction, JournaledRun, SettledTransaction, StepJournal } from '../utils/step-journal.js';
+import { awaitTransactionOutcome } from '../utils/transaction-lookup.js';
+import { ScheduledExecution } from '../utils/scheduled-execution.js';
+import { settledSchedule } from '../utils/treasury-transactions.js';
+import { RUN_HISTORY_VERSION, RunRecord } from '../utils/run-history.js';
+import { TokenAdjustment } from '../utils/dashboard-publisher.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('journal');
+
+/**
+ * Step Journal Recovery
+ * Settles the transactions a previous run left pending in the step journal. A transaction is
+ * looked up by its ID (receipt, then mirror node); one that is still unknown once its valid
+ * duration has passed can no longer reach consensus and is marked as not executed. In scheduled
+ * mode an executed schedule counts as confirmed and one still waiting for signatures is deleted.
+ */
+export class StepJournalRecovery {
+  constructor(
+    private readonly client: Client,
+    private readonly scheduler?: ScheduledExecution
+  ) {}
+
+  /**
+   * Resolve every pending transaction of the journal; returns those whose outcome is still unknown
+   */
+  async resolve(journal: StepJournal): Promise<JournalTransaction[]> {
+    const unresolved: JournalTransaction[] = [];
+
+    for (const transaction of journal.pendingTransactions()) {
+      const outcome = await this.resolveTransaction(transaction);
+      if (outcome) {
+        journal.settled(transaction.transactionId, outcome);
+        logger.info(`📒 ${transaction.functionName} ${transaction.transactionId}: ${outcome.state}${outcome.status ? ` (${outcome.status})` : ''}`);
+      } else {
+        unresolved.push(transaction);
+      }
+    }
+
+    return unresolved;
+  }
+
+  private async resolveTransaction(transaction: JournalTransaction): Promise<SettledTransaction | undefined> {
+    const outcome = await awaitTransactionOutcome(this.client, transaction.transactionId, new Date(transaction.validUntil));
+    if (!outcome) {
+      return undefined;
+    }
+    if (outcome.state === 'not_executed') {
+      return { state: 'not_executed', status: 'NOT_FOUND_AFTER_VALID_DURATION' };
+    }
+    if (!transaction.scheduled || outcome.status !== 'SUCCESS') {
+      return { state: outcome.status === 'SUCCESS' ? 'succeeded' : 'failed', status: outcome.status };
+    }
+    return this.settleSchedule(transaction, outcome.entityId);
+  }
+
+  /**
+   * The schedule a journaled ScheduleCreateTransaction created: executed, or deleted now
+   */
+  private async settleSchedule(transaction: JournalTransaction, scheduleId?: string): Promise<SettledTransaction | undefined> {
+    if (!scheduleId) {
+      logger.error(`❌ ${transaction.transactionId} created a schedule, but its ID is unknown`);
+      return undefined;
+    }
+    if (!this.scheduler) {
+      logger.error(`❌ Schedule ${scheduleId} needs BALANCER_SIGNING_MODE=scheduled to be settled`);
+      return undefined;
+    }
+    return settledSchedule(await this.scheduler.settle(scheduleId));
+  }
+}
+
+/**
+ * Run record of a journaled run that never got recorded (the process died mid-run)
+ */
+export function recoveredRunRecord(run: JournaledRun, context: { agentAccountId: string; executionMode: string }): RunRecord {
+  const adjustments: TokenAdjustment[] = run.steps.filter(step => step.state !== 'planned').map(step => {
+    const last = step.transactions[step.transactions.length - 1];
+    const succeeded = step.state === 'succeeded' || (step.state === 'in_progress' && step.transactions.some(entry => entry.state === 'succeeded'));
+    return {
+      tokenSymbol: step.tokenSymbol,
+      tokenId: step.tokenId,
+      action: step.action,
+      amount: step.amount,
+      amountSmallestUnits: step.amountSmallestUnits,
+      contractFunction: step.contractFunction,
+      success: succeeded,
+      transactionId: step.transactions[0]?.scheduledTransactionId ?? step.transactions[0]?.transactionId,
+      status: last?.status,
+      error: step.state === 'in_progress' ? 'Process stopped before the step was verified' : undefined,
+      attempts: step.transactions.length,
+      transactionIds: step.transactions.map(entry => entry.scheduledTransactionId ?? entry.transactionId),
+      scheduleIds: step.transactions.some(entry => entry.scheduleId) ? step.transactions.flatMap(entry => entry.scheduleId ?? []) : undefined,
+      receipts: step.transactions.map(entry => ({ transactionId: entry.transactionId, status: entry.status ?? entry.state, scheduleId: entry.scheduleId }))
+    };
+  });
+
+  const confirmed = run.steps.flatMap(step => step.transactions).filter(entry => entry.state === 'succeeded').length;
+  const executedSteps = adjustments.length;
+  return {
+    version: RUN_HISTORY_VERSION,
+    runId: run.runId,
+    trigger: run.trigger,
+    agentAccountId: context.agentAccountId,
+    contractId: run.contractId,
+    executionMode: context.executionMode,
+    startedAt: run.startedAt,
+    completedAt: '',
+    durationMs: 0,
+    outcome: 'interrupted',
+    error: `Process stopped mid-run after ${executedSteps} of ${run.steps.length} step(s); recovered from the step journal with ${confirmed} confirmed transaction(s)`,
+    analysis: [],
+    plannedSteps: run.steps.map(step => ({
+      tokenSymbol: step.tokenSymbol,
+      tokenId: step.tokenId,
+      action: step.action,
+      amount: step.amount,
+      amountSmallestUnits: step.amountSmallestUnits,
+      contractFunction: step.contractFunction,
+      expectedBalance: step.expectedBalance
+    })),
+    adjustments,
+    totalFee: '0'
+  };
+}
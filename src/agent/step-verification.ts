@@ -0,0 +1,39 @@
+import { BalanceComparison, compareBalance, DEFAULT_TOLERANCE_PERCENT } from '../utils/balance-verifier.js';
+import { TokenAmount } from '../utils/token-amount.js';
+import { PlannedStep } from './rebalance-planner.js';
+
+export type StepVerificationStatus = 'verified' | 'partial' | 'failed';
+
+/**
+ * Outcome of re-reading a token balance after an adjustment
+ */
+export interface StepVerification {
+  status: StepVerificationStatus;
+  actualBalance: TokenAmount;
+  expectedBalance: TokenAmount;
+  comparison: BalanceComparison;
+}
+
+/**
+ * Classify a step by its re-read balance:
+ * - verified: the balance is within tolerance of the required balance
+ * - partial:  the balance moved towards the required balance but is still outside tolerance
+ * - failed:   the gap did not shrink
+ */
+export function verifyStep(
+  step: PlannedStep,
+  actualBalance: TokenAmount,
+  tolerancePercent: number = DEFAULT_TOLERANCE_PERCENT
+): StepVerification {
+  const comparison = compareBalance(step.tokenSymbol, step.requiredBalance, actualBalance, tolerancePercent);
+  const gapBefore = step.currentBalance.sub(step.requiredBalance).abs();
+
+  let status: StepVerificationStatus = 'failed';
+  if (comparison.withinTolerance) {
+    status = 'verified';
+  } else if (comparison.difference.compare(gapBefore) < 0) {
+    status = 'partial';
+  }
+
+  return { status, actualBalance, expectedBalance: step.expectedBalance, comparison };
+}
@@ -1,24 +1,38 @@
 #!/usr/bin/env node
 
-// Suppress noisy warnings and errors
+// Route dependency logging through the logger and its noise filters
 import './suppress-warnings.js';
 
 import { config } from 'dotenv';
+import { format } from 'util';
 import { LynxBalancerAgent } from './agent/lynx-balancer-agent.js';
+import { RebalancePlanner } from './agent/rebalance-planner.js';
+import { Logger, configureLogger } from './utils/logger.js';
 
 // Load environment variables
 config();
 
+const logger = new Logger('agent');
+
 /**
  * Lynx Balancer Agent - Main Entry Point
  * 
  * This is the main entry point for the Lynx Balancer Agent.
  * The agent listens for governance updates via HCS-10 and executes
  * portfolio rebalancing operations on Hedera.
+ *
+ * Flags:
+ *   --dry-run  Print the rebalancing plan without submitting transactions
+ *   --json     With --dry-run, write the plan to stdout as JSON
  */
 async function main(): Promise<void> {
-  console.log("🦌⚡ Lynx Balancer Agent");
-  console.log("========================");
+  const args = process.argv.slice(2);
+  if (args.includes('--dry-run')) {
+    await runDryRun(args.includes('--json'));
+    return;
+  }
+
+  logger.info('🦌⚡ Lynx Balancer Agent');
 
   try {
     // Create and initialize the balancer agent
@@ -31,7 +45,34 @@ async function main(): Promise<void> {
     await agent.start();
 
   } catch (error) {
-    console.error("❌ Failed to start Lynx Balancer Agent:", error instanceof Error ? error.message : String(error));
+    logger.error('❌ Failed to start Lynx Balancer Agent', { error });
+    process.exit(1);
+  }
+}
+
+/**
+ * Dry run: fetch contract state, analyze every token and output the plan
+ */
+async function runDryRun(jsonOutput: boolean): Promise<void> {
+  if (jsonOutput) {
+    // Keep stdout clean for the JSON plan; progress output goes to stderr as written, not
+    // through console.error, which the logger reports as dependency errors
+    configureLogger({ stderrOnly: true });
+    console.log = (...args: unknown[]) => process.stderr.write(`${format(...args)}\n`);
+  }
+
+  try {
+    const agent = new LynxBalancerAgent();
+    const plan = await agent.planRebalancing();
+
+    if (jsonOutput) {
+      process.stdout.write(JSON.stringify(plan, null, 2) + '\n');
+    } else {
+      console.log('');
+      console.log(RebalancePlanner.formatTable(plan));
+    }
+  } catch (error) {
+    logger.error('❌ Failed to build rebalancing plan', { error });
     process.exit(1);
   }
 }
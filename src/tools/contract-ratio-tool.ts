@@ -1,6 +1,12 @@
 import { z } from 'zod';
-import { Client, ContractCallQuery, ContractId, TokenInfoQuery, TokenId } from '@hashgraph/sdk';
+import { Client, TokenInfoQuery, TokenId } from '@hashgraph/sdk';
 import { StructuredTool } from '@langchain/core/tools';
+import { TokenAmount } from '../utils/token-amount.js';
+import { TokenRegistry } from '../utils/token-registry.js';
+import { fetchBasketRatios } from '../utils/contract-state-manager.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('tools');
 
 /**
  * Tool for querying governance contract token ratios
@@ -13,50 +19,25 @@ export class ContractRatioTool extends StructuredTool {
   });
 
   private client: Client;
+  private registry: TokenRegistry;
 
-  constructor(client: Client) {
+  constructor(client: Client, registry: TokenRegistry = TokenRegistry.load()) {
     super();
     this.client = client;
+    this.registry = registry;
   }
 
   async _call(input: any): Promise<string> {
     try {
-      console.log(`🔍 Querying contract ratios for ${input.contractId}...`);
+      logger.info(`🔍 Querying contract ratios for ${input.contractId}...`);
 
-      // Create contract call query for getCurrentRatios function
-      const contractCallQuery = new ContractCallQuery()
-        .setContractId(ContractId.fromString(input.contractId))
-        .setGas(100000)
-        .setFunction('getCurrentRatios');
+      // Read one ratio per basket token, in registry order
+      const ratios = await fetchBasketRatios(this.client, input.contractId, this.registry);
+      const ratioData = Object.fromEntries(
+        Object.entries(ratios).map(([symbol, ratio]) => [symbol, ratio.toString()])
+      );
 
-      // Execute the query
-      const response = await contractCallQuery.execute(this.client);
-      
-      if (!response) {
-        throw new Error('No result returned from contract call');
-      }
-
-      // Parse the result (6 uint256 values)
-      const result = response;
-      
-      // Extract individual ratios (assuming they're returned in order)
-      const hbarRatio = result.getUint256(0);
-      const wbtcRatio = result.getUint256(1);
-      const sauceRatio = result.getUint256(2);
-      const usdcRatio = result.getUint256(3);
-      const jamRatio = result.getUint256(4);
-      const headstartRatio = result.getUint256(5);
-
-      const ratioData = {
-        HBAR: hbarRatio.toString(),
-        WBTC: wbtcRatio.toString(),
-        SAUCE: sauceRatio.toString(),
-        USDC: usdcRatio.toString(),
-        JAM: jamRatio.toString(),
-        HEADSTART: headstartRatio.toString()
-      };
-
-      console.log(`✅ Contract ratios retrieved:`, ratioData);
+      logger.info('✅ Contract ratios retrieved', { ratios: ratioData });
 
       return JSON.stringify({
         success: true,
@@ -66,7 +47,7 @@ export class ContractRatioTool extends StructuredTool {
       }, null, 2);
 
     } catch (error) {
-      console.error(`❌ Failed to query contract ratios:`, error);
+      logger.error('❌ Failed to query contract ratios', { error });
       return JSON.stringify({
         success: false,
         error: error instanceof Error ? error.message : String(error),
@@ -93,7 +74,7 @@ export class TokenSupplyTool extends StructuredTool {
 
   async _call(input: any): Promise<string> {
     try {
-      console.log(`🔍 Querying token supply for: ${input.tokenId}...`);
+      logger.info(`🔍 Querying token supply for: ${input.tokenId}...`);
 
       const tokenInfoQuery = new TokenInfoQuery()
         .setTokenId(TokenId.fromString(input.tokenId));
@@ -108,21 +89,21 @@ export class TokenSupplyTool extends StructuredTool {
       const decimals = response.decimals;
       
       // Convert from raw units to human-readable
-      const humanReadableSupply = Number(totalSupply) / Math.pow(10, decimals);
+      const humanReadableSupply = TokenAmount.fromRaw(totalSupply, decimals).toHuman();
 
-      console.log(`✅ Token supply retrieved: ${humanReadableSupply} (${totalSupply} raw units, ${decimals} decimals)`);
+      logger.info(`✅ Token supply retrieved: ${humanReadableSupply} (${totalSupply} raw units, ${decimals} decimals)`);
 
       return JSON.stringify({
         success: true,
         tokenId: input.tokenId,
         totalSupply: totalSupply.toString(),
-        humanReadableSupply: humanReadableSupply.toString(),
+        humanReadableSupply: humanReadableSupply,
         decimals: decimals,
         timestamp: new Date().toISOString()
       }, null, 2);
 
     } catch (error) {
-      console.error(`❌ Failed to query token supply:`, error);
+      logger.error('❌ Failed to query token supply', { error });
       return JSON.stringify({
         success: false,
         error: error instanceof Error ? error.message : String(error),
@@ -1,9 +1,18 @@
 import { z } from 'zod';
-import { Client, ContractExecuteTransaction, AccountId, Hbar, ContractId, ContractFunctionParameters } from '@hashgraph/sdk';
+import { Client } from '@hashgraph/sdk';
 import { StructuredTool } from '@langchain/core/tools';
+import { TreasuryTransactions } from '../utils/treasury-transactions.js';
+import { TokenAmount, parseRawUnits } from '../utils/token-amount.js';
+import { RiskPolicy } from '../agent/risk-policy.js';
+import { Logger } from '../utils/logger.js';
+import { rejectedResult, submissionResult } from './transfer-tool-result.js';
+
+const logger = new Logger('tools');
 
 /**
  * Custom Tool for HBAR Withdrawal from Governance Contract
+ * Withdrawals beyond the risk limits are refused when a RiskPolicy is given.
+ * Returns a TransferToolResult as JSON.
  */
 class HbarWithdrawalTool extends StructuredTool {
   name = 'hbar_withdrawal';
@@ -13,48 +22,36 @@ class HbarWithdrawalTool extends StructuredTool {
     amount: z.string().describe('Amount of HBAR to withdraw in tinybars (1 HBAR = 100,000,000 tinybars)')
   });
 
-  constructor(private client: Client) {
+  private transactions: TreasuryTransactions;
+
+  constructor(private client: Client, private riskPolicy?: RiskPolicy, transactions?: TreasuryTransactions) {
     super();
+    this.transactions = transactions ?? new TreasuryTransactions(client);
   }
 
   async _call(input: any): Promise<string> {
+    const { contractId, amount } = input;
     try {
-      const { contractId, amount } = input;
-
-      console.log(`💰 Withdrawing ${amount} tinybars HBAR from contract ${contractId}`);
-      console.log(`💰 Converting: ${amount} tinybars = ${parseInt(amount) / 100000000} HBAR`);
-
-      // Create the contract call transaction for emergencyWithdrawHbar(uint256 amount)
-      const functionParameters = new ContractFunctionParameters()
-        .addUint256(parseInt(amount)); // amount in tinybars as uint256
-
-      const contractCallTx = new ContractExecuteTransaction()
-        .setContractId(ContractId.fromString(contractId))
-        .setGas(100000) // Set gas limit
-        .setFunction('emergencyWithdrawHbar', functionParameters)
-        .setMaxTransactionFee(Hbar.fromTinybars(100000000)); // 1 HBAR max fee
+      logger.info(`💰 Withdrawing ${amount} tinybars HBAR from contract ${contractId}`);
+      const tinybars = TokenAmount.fromRaw(parseRawUnits(amount), 8);
+      logger.debug(`💰 Converting: ${amount} tinybars = ${tinybars.toHuman()} HBAR`);
 
-      // Execute the transaction
-      const txResponse = await contractCallTx.execute(this.client);
-      console.log(`⏳ Contract call submitted: ${txResponse.transactionId}`);
+      const authorization = this.riskPolicy?.authorize('HBAR', tinybars);
+      if (authorization && authorization.amount.compare(tinybars) < 0) {
+        throw new Error(`Risk limit: ${authorization.violations.map(violation => violation.message).join('; ')} - at most ${authorization.amount} HBAR may be withdrawn now`);
+      }
 
-      // Get the receipt
-      const receipt = await txResponse.getReceipt(this.client);
-      console.log(`✅ Contract call completed with status: ${receipt.status}`);
+      const result = await this.transactions.withdrawHbar(contractId, tinybars.raw);
+      this.riskPolicy?.record('HBAR', 'withdraw', tinybars, result);
+      if (!result.success) {
+        logger.error(`❌ HBAR withdrawal failed (${result.failure}): ${result.error}`);
+      }
 
-      return JSON.stringify({
-        success: true,
-        transactionId: txResponse.transactionId.toString(),
-        status: receipt.status.toString(),
-        withdrawnAmount: `${parseInt(amount) / 100000000} HBAR (${amount} tinybars)`
-      }, null, 2);
+      return JSON.stringify(submissionResult(this.name, { tokenId: 'HBAR', amount: tinybars.raw.toString(), humanAmount: `${tinybars.toHuman()} HBAR` }, result), null, 2);
 
     } catch (error) {
-      console.error('❌ HBAR withdrawal failed:', error);
-      return JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
-      }, null, 2);
+      logger.error('❌ HBAR withdrawal refused', { error });
+      return JSON.stringify(rejectedResult(this.name, { tokenId: 'HBAR', amount: String(amount) }, error), null, 2);
     }
   }
 }
@@ -1,88 +1,135 @@
 import { z } from 'zod';
 import { StructuredTool } from '@langchain/core/tools';
+import { TokenAmount } from '../utils/token-amount.js';
+import { compareBalance, DEFAULT_TOLERANCE_PERCENT, requiredBalanceFor } from '../utils/balance-verifier.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = new Logger('tools');
 
 // take the given token, balance on contract and its ratio on the contract as vars
 // use our formula as defined on the contract to determin if the balance weight matches the ratio
 // return the result
 
+/**
+ * Result of a single token ratio analysis
+ */
+export interface TokenRatioAnalysis {
+  tokenSymbol: string;
+  status: 'BALANCED' | 'OUT_OF_BALANCE';
+  balanceStatus: 'BALANCED' | 'EXCESS' | 'DEFICIT';
+  currentBalance: TokenAmount;
+  requiredBalance: TokenAmount;
+  difference: TokenAmount;
+  diffPercent: number;
+  tolerancePercent: number;
+  needsRebalancing: boolean;
+  transferParams: { action: 'withdraw' | 'deposit'; amount: TokenAmount; tool: string } | null;
+  analysis: string;
+}
+
+/**
+ * Analyze a token balance using the contract formula: Required = (LYNX Supply × Ratio) ÷ 10
+ * All arithmetic is done in smallest units; the required balance is expressed in the token's decimals.
+ * The comparison is the one step verification uses, so a planned step and its verification agree.
+ */
+export function analyzeTokenRatio(input: {
+  tokenSymbol: string;
+  currentBalance: TokenAmount;
+  targetRatio: number;
+  lynxTotalSupply: TokenAmount;
+  tolerancePercent?: number;
+}): TokenRatioAnalysis {
+  const tolerancePercent = input.tolerancePercent || DEFAULT_TOLERANCE_PERCENT;
+  const { currentBalance, lynxTotalSupply } = input;
+
+  if (!Number.isInteger(input.targetRatio)) {
+    throw new Error(`Target ratio must be an integer, got ${input.targetRatio}`);
+  }
+
+  // Required = supply × ratio ÷ 10, rescaled from LYNX decimals to token decimals
+  const requiredBalance = requiredBalanceFor(lynxTotalSupply, input.targetRatio, currentBalance.decimals);
+  const { difference, diffPercent, withinTolerance } = compareBalance(input.tokenSymbol, requiredBalance, currentBalance, tolerancePercent);
+
+  // A token with a zero ratio is out of balance while the contract still holds any of it
+  const needsRebalancing = !withinTolerance;
+  const status = needsRebalancing ? 'OUT_OF_BALANCE' : 'BALANCED';
+
+  // Determine if we have excess or deficit
+  let balanceStatus: TokenRatioAnalysis['balanceStatus'] = 'BALANCED';
+  if (needsRebalancing) {
+    balanceStatus = currentBalance.compare(requiredBalance) > 0 ? 'EXCESS' : 'DEFICIT';
+  }
+
+  // Calculate transfer parameters
+  let transferParams: TokenRatioAnalysis['transferParams'] = null;
+  if (balanceStatus === 'EXCESS') {
+    // Need to withdraw excess from contract
+    transferParams = {
+      action: 'withdraw',
+      amount: difference,
+      tool: input.tokenSymbol === 'HBAR' ? 'hbar_withdrawal_tool' : 'token_withdrawal_tool'
+    };
+  } else if (balanceStatus === 'DEFICIT') {
+    // Need to deposit deficit to contract
+    transferParams = {
+      action: 'deposit',
+      amount: difference,
+      tool: input.tokenSymbol === 'HBAR' ? 'transfer_hbar' : 'token_transfer_tool'
+    };
+  }
+
+  return {
+    tokenSymbol: input.tokenSymbol,
+    status,
+    balanceStatus,
+    currentBalance,
+    requiredBalance,
+    difference,
+    diffPercent,
+    tolerancePercent,
+    needsRebalancing,
+    transferParams,
+    analysis: `${input.tokenSymbol}: Current=${currentBalance}, Required=${requiredBalance}, Diff=${diffPercent.toFixed(1)}% (${needsRebalancing ? 'REBALANCE NEEDED' : 'OK'})`
+  };
+}
+
 export class TokenRatioTool extends StructuredTool {
   name = 'token_ratio_tool';
   description = 'Analyze if a specific token balance matches its required ratio using the contract formula: Required = (LYNX Supply × Ratio) ÷ 10';
   schema = z.object({
     tokenSymbol: z.string().describe('Token symbol (e.g., HBAR, WBTC, SAUCE, USDC, JAM, HEADSTART)'),
-    currentBalance: z.number().describe('Current balance of the token on the contract'),
+    currentBalance: z.union([z.number(), z.string()]).describe('Current balance of the token on the contract (human-readable units)'),
+    tokenDecimals: z.number().optional().default(8).describe('Decimals of the token (default 8)'),
     targetRatio: z.number().describe('Target ratio for this token from the contract'),
-    lynxTotalSupply: z.number().describe('Total supply of LYNX tokens'),
+    lynxTotalSupply: z.union([z.number(), z.string()]).describe('Total supply of LYNX tokens (human-readable units)'),
+    lynxDecimals: z.number().optional().default(8).describe('Decimals of the LYNX token (default 8)'),
     tolerancePercent: z.number().optional().default(5).describe('Tolerance percentage for balance check (default 5%)')
   });
 
   async _call(input: {
     tokenSymbol: string;
-    currentBalance: number;
+    currentBalance: number | string;
+    tokenDecimals?: number;
     targetRatio: number;
-    lynxTotalSupply: number;
+    lynxTotalSupply: number | string;
+    lynxDecimals?: number;
     tolerancePercent?: number;
   }): Promise<string> {
     try {
-      const tolerance = (input.tolerancePercent || 5) / 100; // Convert to decimal
-      
-      // Use the contract formula: Required = (LYNX Supply × Ratio) ÷ 10
-      const requiredBalance = (input.lynxTotalSupply * input.targetRatio) / 10;
-      
-      // Calculate difference and percentage
-      const difference = Math.abs(input.currentBalance - requiredBalance);
-      const diffPercent = requiredBalance > 0 ? (difference / requiredBalance) * 100 : 0;
-      
-      // Determine if rebalancing is needed
-      const needsRebalancing = diffPercent > (tolerance * 100);
-      const status = needsRebalancing ? 'OUT_OF_BALANCE' : 'BALANCED';
-      
-      // Determine if we have excess or deficit
-      let balanceStatus = 'BALANCED';
-      if (needsRebalancing) {
-        balanceStatus = input.currentBalance > requiredBalance ? 'EXCESS' : 'DEFICIT';
-      }
-
-      // Calculate transfer parameters
-      let transferParams: { action: string; amount: number; tool: string } | null = null;
-      if (needsRebalancing) {
-        if (balanceStatus === 'EXCESS') {
-          // Need to withdraw excess from contract
-          transferParams = {
-            action: 'withdraw',
-            amount: Number(difference.toFixed(4)),
-            tool: input.tokenSymbol === 'HBAR' ? 'hbar_withdrawal_tool' : 'token_withdrawal_tool'
-          };
-        } else if (balanceStatus === 'DEFICIT') {
-          // Need to deposit deficit to contract
-          transferParams = {
-            action: 'deposit',
-            amount: Number(difference.toFixed(4)),
-            tool: input.tokenSymbol === 'HBAR' ? 'transfer_hbar' : 'token_transfer_tool'
-          };
-        }
-      }
-
-      const result = {
+      const result = analyzeTokenRatio({
         tokenSymbol: input.tokenSymbol,
-        status: status,
-        balanceStatus: balanceStatus,
-        currentBalance: input.currentBalance,
-        requiredBalance: Number(requiredBalance.toFixed(4)),
-        difference: Number(difference.toFixed(4)),
-        diffPercent: Number(diffPercent.toFixed(2)),
-        tolerancePercent: input.tolerancePercent || 5,
-        needsRebalancing: needsRebalancing,
-        transferParams: transferParams,
-        analysis: `${input.tokenSymbol}: Current=${input.currentBalance}, Required=${requiredBalance.toFixed(2)}, Diff=${diffPercent.toFixed(1)}% (${needsRebalancing ? 'REBALANCE NEEDED' : 'OK'})`
-      };
+        currentBalance: TokenAmount.fromHuman(input.currentBalance, input.tokenDecimals ?? 8),
+        targetRatio: input.targetRatio,
+        lynxTotalSupply: TokenAmount.fromHuman(input.lynxTotalSupply, input.lynxDecimals ?? 8),
+        tolerancePercent: input.tolerancePercent
+      });
 
-      console.log(`🔍 ${input.tokenSymbol} Analysis: ${result.analysis}`);
+      logger.info(`🔍 ${input.tokenSymbol} Analysis: ${result.analysis}`);
 
       return JSON.stringify(result, null, 2);
 
     } catch (error) {
-      console.error(`❌ Failed to analyze ${input.tokenSymbol}:`, error);
+      logger.error(`❌ Failed to analyze ${input.tokenSymbol}`, { error });
       return JSON.stringify({
         tokenSymbol: input.tokenSymbol,
         status: 'ERROR',
@@ -91,4 +138,4 @@ export class TokenRatioTool extends StructuredTool {
       }, null, 2);
     }
   }
-}
\ No newline at end of file
+}
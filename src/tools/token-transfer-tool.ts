@@ -1,9 +1,19 @@
 import { z } from 'zod';
-import { Client, TransferTransaction, TokenId, AccountId, Hbar, TokenInfoQuery } from '@hashgraph/sdk';
+import { Client, TokenId, TokenInfoQuery } from '@hashgraph/sdk';
 import { StructuredTool } from '@langchain/core/tools';
+import { TreasuryTransactions } from '../utils/treasury-transactions.js';
+import { TokenAmount, parseRawUnits } from '../utils/token-amount.js';
+import { TokenRegistry } from '../utils/token-registry.js';
+import { RiskPolicy } from '../agent/risk-policy.js';
+import { Logger } from '../utils/logger.js';
+import { rejectedResult, submissionResult } from './transfer-tool-result.js';
+
+const logger = new Logger('tools');
 
 /**
  * Custom Tool for Token Transfers
+ * With a RiskPolicy, transfers are authorized and recorded like the rebalance executor's deposits.
+ * Returns a TransferToolResult as JSON.
  */
 class TokenTransferTool extends StructuredTool {
   name = 'token_transfer';
@@ -16,100 +26,95 @@ class TokenTransferTool extends StructuredTool {
     isRawUnits: z.boolean().optional().default(false).describe('Whether amount is already in raw units (true) or decimal units (false, default)')
   });
 
-  constructor(private client: Client) {
+  private transactions: TreasuryTransactions;
+
+  constructor(private client: Client, private registry?: TokenRegistry, private riskPolicy?: RiskPolicy, transactions?: TreasuryTransactions) {
     super();
+    this.transactions = transactions ?? new TreasuryTransactions(client);
   }
 
   async _call(input: any): Promise<string> {
+    const { tokenId, fromAccountId, toAccountId, amount, isRawUnits = false } = input;
     try {
-      const { tokenId, fromAccountId, toAccountId, amount, isRawUnits = false } = input;
-
-      console.log(`🪙 Transferring ${amount} units of token ${tokenId}`);
-      console.log(`📤 From: ${fromAccountId}`);
-      console.log(`📥 To: ${toAccountId}`);
+      logger.info(`🪙 Transferring ${amount} units of token ${tokenId}`);
+      logger.info(`📤 From: ${fromAccountId}`);
+      logger.info(`📥 To: ${toAccountId}`);
 
       // Handle HBAR vs Token transfers differently
       if (tokenId === 'HBAR') {
-        console.log(`🔍 HBAR transfer - using native currency handling`);
+        logger.info('🔍 HBAR transfer - using native currency handling');
         
-        // Convert HBAR to tinybars
-        const humanAmount = parseFloat(amount);
-        const tinybars = isRawUnits ? Math.round(humanAmount) : Math.round(humanAmount * 100000000); // 1 HBAR = 100,000,000 tinybars
+        // Convert HBAR to tinybars (1 HBAR = 100,000,000 tinybars)
+        const tinybars = isRawUnits ? TokenAmount.fromRaw(parseRawUnits(amount), 8) : TokenAmount.fromHuman(amount, 8);
+        const humanAmount = tinybars.toHuman();
         
         if (isRawUnits) {
-          console.log(`🔄 Using ${humanAmount} as raw tinybars`);
+          logger.debug(`🔄 Using ${amount} as raw tinybars`);
         } else {
-          console.log(`🔄 Converting ${humanAmount} HBAR to ${tinybars} tinybars`);
+          logger.debug(`🔄 Converting ${humanAmount} HBAR to ${tinybars.raw} tinybars`);
         }
 
-        // Create HBAR transfer transaction
-        const transferTx = new TransferTransaction()
-          .addHbarTransfer(AccountId.fromString(fromAccountId), Hbar.fromTinybars(-tinybars))
-          .addHbarTransfer(AccountId.fromString(toAccountId), Hbar.fromTinybars(tinybars))
-          .setMaxTransactionFee(Hbar.fromTinybars(100000000)); // 1 HBAR max fee
-
-        // Execute the transaction
-        const txResponse = await transferTx.execute(this.client);
-        console.log(`⏳ Transaction submitted: ${txResponse.transactionId}`);
-
-        // Get the receipt
-        const receipt = await txResponse.getReceipt(this.client);
-        console.log(`✅ Transaction completed with status: ${receipt.status}`);
+        this.authorize('HBAR', tinybars);
+        const result = await this.transactions.transferHbar(fromAccountId, toAccountId, tinybars.raw);
+        this.riskPolicy?.record('HBAR', 'deposit', tinybars, result);
+        if (!result.success) {
+          logger.error(`❌ HBAR transfer failed (${result.failure}): ${result.error}`);
+        }
 
-        return `The transfer of ${humanAmount} HBAR from account ${fromAccountId} to contract ${toAccountId} was successful. The transaction ID is **${txResponse.transactionId}**.`;
+        return JSON.stringify(submissionResult(this.name, { tokenId: 'HBAR', amount: tinybars.raw.toString(), humanAmount: `${humanAmount} HBAR` }, result), null, 2);
       } else {
         // Handle token transfers
-        console.log(`🔍 Token transfer for ${tokenId}`);
-        
-        // Get token info to determine decimals
-        const tokenInfoQuery = new TokenInfoQuery()
-          .setTokenId(TokenId.fromString(tokenId));
+        logger.info(`🔍 Token transfer for ${tokenId}`);
         
-        const tokenInfo = await tokenInfoQuery.execute(this.client);
-        const decimals = tokenInfo.decimals;
+        // Get decimals from the registry, falling back to token info for unregistered tokens
+        const token = this.registry?.findByTokenId(tokenId);
+        if (!token && this.riskPolicy) {
+          throw new Error(`Token ${tokenId} is not in the token registry - refusing to transfer it under the risk policy`);
+        }
+        let decimals = token?.decimals;
+        if (decimals === undefined) {
+          const tokenInfoQuery = new TokenInfoQuery()
+            .setTokenId(TokenId.fromString(tokenId));
+          
+          const tokenInfo = await tokenInfoQuery.execute(this.client);
+          decimals = tokenInfo.decimals;
+        }
         
-        console.log(`🔍 Token ${tokenId} has ${decimals} decimals`);
+        logger.debug(`🔍 Token ${tokenId} has ${decimals} decimals`);
 
         // Convert to smallest units if needed
-        const humanAmount = parseFloat(amount);
-        const smallestUnits = isRawUnits ? Math.round(humanAmount) : Math.round(humanAmount * Math.pow(10, decimals));
+        const smallestUnits = isRawUnits ? TokenAmount.fromRaw(parseRawUnits(amount), decimals) : TokenAmount.fromHuman(amount, decimals);
+        const humanAmount = smallestUnits.toHuman();
         
         if (isRawUnits) {
-          console.log(`🔄 Using ${humanAmount} as raw units`);
+          logger.debug(`🔄 Using ${amount} as raw units`);
         } else {
-          console.log(`🔄 Converting ${humanAmount} to ${smallestUnits} smallest units`);
+          logger.debug(`🔄 Converting ${humanAmount} to ${smallestUnits.raw} smallest units`);
         }
 
-        // Create the transfer transaction
-        const transferTx = new TransferTransaction()
-          .addTokenTransfer(
-            TokenId.fromString(tokenId),
-            AccountId.fromString(fromAccountId),
-            -smallestUnits
-          )
-          .addTokenTransfer(
-            TokenId.fromString(tokenId),
-            AccountId.fromString(toAccountId),
-            smallestUnits
-          )
-          .setMaxTransactionFee(Hbar.fromTinybars(100000000)); // 1 HBAR max fee
-
-        // Execute the transaction
-        const txResponse = await transferTx.execute(this.client);
-        console.log(`⏳ Transaction submitted: ${txResponse.transactionId}`);
-
-        // Get the receipt
-        const receipt = await txResponse.getReceipt(this.client);
-        console.log(`✅ Transaction completed with status: ${receipt.status}`);
+        if (token) this.authorize(token.symbol, smallestUnits);
+        const result = await this.transactions.transferToken(tokenId, fromAccountId, toAccountId, smallestUnits.raw);
+        if (token) this.riskPolicy?.record(token.symbol, 'deposit', smallestUnits, result);
+        if (!result.success) {
+          logger.error(`❌ Token transfer failed (${result.failure}): ${result.error}`);
+        }
 
-        return `The transfer of ${humanAmount} units of token ${tokenId} from account ${fromAccountId} to contract ${toAccountId} was successful.`;
+        return JSON.stringify(submissionResult(this.name, { tokenId, amount: smallestUnits.raw.toString(), humanAmount }, result), null, 2);
       }
 
-
-
     } catch (error) {
-      console.error('❌ Token transfer failed:', error);
-      return `Token transfer failed: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error('❌ Token transfer refused', { error });
+      return JSON.stringify(rejectedResult(this.name, { tokenId, amount: String(amount) }, error), null, 2);
+    }
+  }
+
+  /**
+   * Throw unless the risk policy allows the full amount now
+   */
+  private authorize(symbol: string, amount: TokenAmount): void {
+    const authorization = this.riskPolicy?.authorize(symbol, amount);
+    if (authorization && authorization.amount.compare(amount) < 0) {
+      throw new Error(`Risk limit: ${authorization.violations.map(violation => violation.message).join('; ')} - at most ${authorization.amount} ${symbol} may be transferred now`);
     }
   }
 }
@@ -1,9 +1,20 @@
 import { z } from 'zod';
-import { Client, ContractExecuteTransaction, ContractId, ContractFunctionParameters, Hbar, TokenId } from '@hashgraph/sdk';
+import { Client } from '@hashgraph/sdk';
 import { StructuredTool } from '@langchain/core/tools';
+import { TreasuryTransactions, TreasuryTransactionResult } from '../utils/treasury-transactions.js';
+import { TokenAmount, parseRawUnits } from '../utils/token-amount.js';
+import { TokenRegistry } from '../utils/token-registry.js';
+import { RiskPolicy } from '../agent/risk-policy.js';
+import { Logger } from '../utils/logger.js';
+import { rejectedResult, submissionResult } from './transfer-tool-result.js';
+
+const logger = new Logger('tools');
 
 /**
  * Custom Tool for Token Withdrawal from Governance Contract
+ * Withdrawals beyond the risk limits are refused when a RiskPolicy is given; the token must
+ * then be in the registry so its symbol and decimals are known.
+ * Returns a TransferToolResult as JSON.
  */
 class TokenWithdrawalTool extends StructuredTool {
   name = 'token_withdrawal';
@@ -15,82 +26,70 @@ class TokenWithdrawalTool extends StructuredTool {
     reason: z.string().optional().default('Rebalancing').describe('Reason for withdrawal (only used for tokens)')
   });
 
-  constructor(private client: Client) {
+  private transactions: TreasuryTransactions;
+
+  constructor(private client: Client, private registry?: TokenRegistry, private riskPolicy?: RiskPolicy, transactions?: TreasuryTransactions) {
     super();
+    this.transactions = transactions ?? new TreasuryTransactions(client);
   }
 
   async _call(input: any): Promise<string> {
+    const { contractId, tokenId, amount, reason = 'Rebalancing' } = input;
     try {
-      const { contractId, tokenId, amount, reason = 'Rebalancing' } = input;
-
-      console.log(`🪙 Withdrawing ${amount} units of ${tokenId} from contract ${contractId}`);
+      logger.info(`🪙 Withdrawing ${amount} units of ${tokenId} from contract ${contractId}`);
+
+      const guarded = this.riskPolicy ? this.resolveAmount(tokenId, parseRawUnits(amount)) : undefined;
+      if (guarded) {
+        const authorization = this.riskPolicy!.authorize(guarded.symbol, guarded.amount);
+        if (authorization.amount.compare(guarded.amount) < 0) {
+          throw new Error(`Risk limit: ${authorization.violations.map(violation => violation.message).join('; ')} - at most ${authorization.amount} ${guarded.symbol} may be withdrawn now`);
+        }
+      }
 
-      let contractCallTx: ContractExecuteTransaction;
-      let functionName: string;
+      let result: TreasuryTransactionResult;
 
       if (tokenId === 'HBAR') {
         // Handle HBAR withdrawal using emergencyWithdrawHbar(uint256 amount)
-        console.log(`💰 HBAR withdrawal - using emergencyWithdrawHbar function`);
-        console.log(`📝 Amount: ${amount} tinybars = ${parseInt(amount) / 100000000} HBAR`);
+        logger.info('💰 HBAR withdrawal - using emergencyWithdrawHbar function');
+        logger.info(`📝 Amount: ${amount} tinybars = ${TokenAmount.fromRaw(parseRawUnits(amount), 8).toHuman()} HBAR`);
 
-        const functionParameters = new ContractFunctionParameters()
-          .addUint256(parseInt(amount)); // amount in tinybars as uint256
-
-        contractCallTx = new ContractExecuteTransaction()
-          .setContractId(ContractId.fromString(contractId))
-          .setGas(100000) // Set gas limit
-          .setFunction('emergencyWithdrawHbar', functionParameters)
-          .setMaxTransactionFee(Hbar.fromTinybars(100000000)); // 1 HBAR max fee
-
-        functionName = 'emergencyWithdrawHbar';
+        result = await this.transactions.withdrawHbar(contractId, parseRawUnits(amount));
       } else {
         // Handle token withdrawal using adminWithdrawToken(address token, uint256 amount, string reason)
-        console.log(`🪙 Token withdrawal - using adminWithdrawToken function`);
-        console.log(`📝 Reason: ${reason}`);
-
-        // Convert Hedera token ID to Ethereum address for contract call
-        const tokenIdObj = TokenId.fromString(tokenId);
-        const tokenAddress = tokenIdObj.toSolidityAddress();
-        console.log(`🔍 Converting token ID ${tokenId} to Ethereum address: ${tokenAddress}`);
-
-        const functionParameters = new ContractFunctionParameters()
-          .addAddress(tokenAddress) // token address as Ethereum address
-          .addUint256(parseInt(amount)) // amount in smallest units as uint256
-          .addString(reason); // reason for withdrawal
-
-        contractCallTx = new ContractExecuteTransaction()
-          .setContractId(ContractId.fromString(contractId))
-          .setGas(100000) // Set gas limit
-          .setFunction('adminWithdrawToken', functionParameters)
-          .setMaxTransactionFee(Hbar.fromTinybars(100000000)); // 1 HBAR max fee
-
-        functionName = 'adminWithdrawToken';
-      }
+        logger.info('🪙 Token withdrawal - using adminWithdrawToken function');
+        logger.info(`📝 Reason: ${reason}`);
 
-      // Execute the transaction
-      const txResponse = await contractCallTx.execute(this.client);
-      console.log(`⏳ Contract call submitted: ${txResponse.transactionId}`);
+        result = await this.transactions.withdrawToken(contractId, tokenId, parseRawUnits(amount), reason);
+      }
 
-      // Get the receipt
-      const receipt = await txResponse.getReceipt(this.client);
-      console.log(`✅ Contract call completed with status: ${receipt.status}`);
+      if (guarded) {
+        this.riskPolicy!.record(guarded.symbol, 'withdraw', guarded.amount, result);
+      }
+      if (!result.success) {
+        logger.error(`❌ Token withdrawal failed (${result.failure}): ${result.error}`);
+      }
 
-      return JSON.stringify({
-        success: true,
-        transactionId: txResponse.transactionId.toString(),
-        status: receipt.status.toString(),
-        functionName: functionName,
-        withdrawnToken: tokenId,
-        withdrawnAmount: amount
-      }, null, 2);
+      return JSON.stringify(submissionResult(this.name, { tokenId, amount: String(amount), humanAmount: guarded ? `${guarded.amount.toHuman()} ${guarded.symbol}` : undefined }, result), null, 2);
 
     } catch (error) {
-      console.error('❌ Token withdrawal failed:', error);
-      return JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
-      }, null, 2);
+      logger.error('❌ Token withdrawal refused', { error });
+      return JSON.stringify(rejectedResult(this.name, { tokenId, amount: String(amount) }, error), null, 2);
+    }
+  }
+
+  /**
+   * Symbol and decimal amount of a withdrawal, for the risk checks
+   */
+  private resolveAmount(tokenId: string, raw: bigint): { symbol: string; amount: TokenAmount } {
+    if (tokenId === 'HBAR') {
+      return { symbol: 'HBAR', amount: TokenAmount.fromRaw(raw, 8) };
+    }
+
+    const token = this.registry?.findByTokenId(tokenId);
+    if (!token) {
+      throw new Error(`Token ${tokenId} is not in the token registry - refusing to withdraw it under the risk policy`);
     }
+    return { symbol: token.symbol, amount: TokenAmount.fromRaw(raw, token.decimals) };
   }
 }
 
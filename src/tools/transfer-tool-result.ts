@@ -0,0 +1,74 @@
+import { TreasuryTransactionResult } from '../utils/treasury-transactions.js';
+import { SubmissionFailure } from '../utils/transaction-errors.js';
+
+/**
+ * How a withdrawal or transfer tool call ended
+ * - success:  executed
+ * - rejected: refused before anything was submitted (invalid input, risk limit, unknown token)
+ * - retryable / fatal / ambiguous: submission failed, see SubmissionFailure
+ */
+export type TransferToolOutcome = 'success' | 'rejected' | SubmissionFailure;
+
+/**
+ * Result returned (as JSON) by the withdrawal and transfer tools
+ */
+export interface TransferToolResult {
+  success: boolean;
+  outcome: TransferToolOutcome;
+  tool: string;
+  tokenId: string; // "HBAR" for HBAR
+  amount: string; // smallest units
+  humanAmount?: string;
+  transactionId?: string;
+  status?: string;
+  functionName?: string;
+  attempts: number;
+  error?: string;
+  nextAction: string; // what the caller should do with this outcome
+}
+
+const NEXT_ACTIONS: Record<TransferToolOutcome, string> = {
+  success: 'Done - do not submit this transfer again.',
+  rejected: 'Nothing was submitted - fix the input or stay within the risk limits before calling again.',
+  retryable: 'The network did not execute it after the automatic retries - it is safe to call again later.',
+  fatal: 'Retrying will not help (e.g. insufficient balance, missing association, contract revert) - report the error.',
+  ambiguous: 'The transaction may still have executed - do NOT call again until its transaction ID has been checked.'
+};
+
+/**
+ * Tool result for a submitted transaction
+ */
+export function submissionResult(
+  tool: string,
+  request: { tokenId: string; amount: string; humanAmount?: string },
+  result: TreasuryTransactionResult
+): TransferToolResult {
+  const outcome: TransferToolOutcome = result.success ? 'success' : result.failure ?? 'fatal';
+  return {
+    success: result.success,
+    outcome,
+    tool,
+    ...request,
+    transactionId: result.transactionId,
+    status: result.status,
+    functionName: result.functionName,
+    attempts: result.attempts,
+    error: result.error,
+    nextAction: NEXT_ACTIONS[outcome]
+  };
+}
+
+/**
+ * Tool result for a call refused before submission
+ */
+export function rejectedResult(tool: string, request: { tokenId: string; amount: string }, error: unknown): TransferToolResult {
+  return {
+    success: false,
+    outcome: 'rejected',
+    tool,
+    ...request,
+    attempts: 0,
+    error: error instanceof Error ? error.message : String(error),
+    nextAction: NEXT_ACTIONS.rejected
+  };
+}
@@ -0,0 +1,59 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { Logger } from './logger.js';
+
+const logger = new Logger('alerts');
+
+/**
+ * Accepted Alert Store
+ * Digests of recently accepted signed alerts (ALERT_ACCEPTED_FILE, default
+ * .balancer/accepted-alerts.json), so a copy of a signed alert resubmitted to the topic is
+ * rejected even across restarts. An entry is kept until consensus time passes its expiry: after
+ * that the copy falls outside the signature window anyway. The topic sequence number of the
+ * accepted message is kept too, so that message itself is still accepted when it is replayed
+ * after a crash that happened before the alert cursor moved past it.
+ */
+interface AcceptedAlert {
+  sequenceNumber: number;
+  expiresAt: number; // ms
+}
+
+export class AcceptedAlertStore {
+  private entries?: Record<string, AcceptedAlert>; // by digest
+
+  constructor(private readonly path: string = process.env.ALERT_ACCEPTED_FILE || '.balancer/accepted-alerts.json') {}
+
+  /**
+   * Sequence number of the topic message the alert was accepted from, if it was
+   */
+  acceptedSequenceNumber(digest: string): number | undefined {
+    return this.load()[digest]?.sequenceNumber;
+  }
+
+  /**
+   * Remember an accepted alert and drop entries that expired before consensusMs
+   */
+  add(digest: string, sequenceNumber: number, expiresAtMs: number, consensusMs: number): void {
+    const entries = this.load();
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry.expiresAt < consensusMs) delete entries[key];
+    }
+    entries[digest] = { sequenceNumber, expiresAt: expiresAtMs };
+
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tempPath = `${this.path}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(entries, null, 2));
+      renameSync(tempPath, this.path);
+    } catch (error) {
+      logger.error('❌ Failed to persist accepted alerts', { error });
+    }
+  }
+
+  private load(): Record<string, AcceptedAlert> {
+    if (!this.entries) {
+      this.entries = existsSync(this.path) ? JSON.parse(readFileSync(this.path, 'utf8')) as Record<string, AcceptedAlert> : {};
+    }
+    return this.entries;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Label values of one series, e.g. { token: 'SAUCE', action: 'withdraw' }
+ */
+export type MetricLabels = Record<string, string>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  series: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+/**
+ * Agent Metrics
+ * In-process counters and gauges rendered in the Prometheus text exposition format for the
+ * /metrics endpoint. Series are created on first use; nothing is exported until then.
+ */
+export class AgentMetrics {
+  private readonly families = new Map<string, MetricFamily>();
+
+  constructor() {
+    this.define('lynx_balancer_runs_total', 'counter', 'Rebalancing runs by outcome');
+    this.define('lynx_balancer_transfers_total', 'counter', 'Treasury transfers submitted, by token, action and result');
+    this.define('lynx_balancer_failures_total', 'counter', 'Failures by stage (run, transfer, verification, subscription, alert)');
+    this.define('lynx_balancer_token_drift_percent', 'gauge', 'Last observed deviation of each token from its required balance, in percent');
+    this.define('lynx_balancer_llm_calls_total', 'counter', 'LLM agent invocations by result');
+    this.define('lynx_balancer_rebalancing_in_progress', 'gauge', '1 while a rebalancing run holds the lock');
+    this.define('lynx_balancer_subscription_live', 'gauge', '1 while the alert topic subscription is live');
+    this.define('lynx_balancer_trigger_queue_depth', 'gauge', 'Rebalance triggers waiting for the current run');
+    this.define('lynx_balancer_uptime_seconds', 'gauge', 'Seconds since the agent process started');
+  }
+
+  increment(name: string, labels: MetricLabels = {}, by = 1): void {
+    const series = this.series(name, labels);
+    series.value += by;
+  }
+
+  set(name: string, value: number, labels: MetricLabels = {}): void {
+    this.series(name, labels).value = value;
+  }
+
+  /**
+   * Current value of a series (0 if it was never touched)
+   */
+  get(name: string, labels: MetricLabels = {}): number {
+    return this.family(name).series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const family of this.families.values()) {
+      if (family.series.size === 0) continue;
+
+      lines.push(`# HELP ${family.name} ${family.help}`);
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      for (const { labels, value } of family.series.values()) {
+        lines.push(`${family.name}${formatLabels(labels)} ${value}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private define(name: string, type: MetricFamily['type'], help: string): void {
+    this.families.set(name, { name, help, type, series: new Map() });
+  }
+
+  private family(name: string): MetricFamily {
+    const family = this.families.get(name);
+    if (!family) {
+      throw new Error(`Unknown metric ${name}`);
+    }
+    return family;
+  }
+
+  private series(name: string, labels: MetricLabels): { labels: MetricLabels; value: number } {
+    const family = this.family(name);
+    const key = seriesKey(labels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { labels, value: 0 };
+      family.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
@@ -0,0 +1,140 @@
+import { PublicKey } from '@hashgraph/sdk';
+import { createHash } from 'crypto';
+import dotenv from 'dotenv';
+import { AlertMessage, canonicalAlertPayload } from './alert-protocol.js';
+import { AcceptedAlertStore } from './accepted-alerts.js';
+import { parseConsensusTimestamp } from './topic-messages.js';
+
+// Load environment variables
+dotenv.config();
+
+export type AlertAuthResult =
+  | { ok: true; method: 'signature' | 'payer'; signer: string }
+  | { ok: false; error: string };
+
+/**
+ * Alert Authenticator
+ * Decides whether a BALANCER_ALERT_TOPIC message may be acted on. A message is accepted when
+ * its embedded signature verifies against an allowed governance public key, or when the payer
+ * of the consensus message is an allowed account and matches the claimed sender.
+ * Anyone can copy a signed alert onto the topic, so a signed alert is only accepted once and only
+ * if its signed timestamp is within signatureWindowMs of the message's consensus timestamp.
+ */
+export class AlertAuthenticator {
+  constructor(
+    private readonly allowedPublicKeys: PublicKey[],
+    private readonly allowedPayers: string[],
+    private readonly signatureWindowMs = 300000,
+    private readonly acceptedAlerts: AcceptedAlertStore = new AcceptedAlertStore()
+  ) {}
+
+  /**
+   * Build from ALERT_ALLOWED_PUBLIC_KEYS and ALERT_ALLOWED_PAYER_ACCOUNTS (comma-separated).
+   * With neither configured, only the operator account (HEDERA_ACCOUNT_ID) may send alerts.
+   * ALERT_SIGNATURE_WINDOW_MS (default 300000) bounds the age of signed alerts.
+   */
+  static fromEnvironment(env: NodeJS.ProcessEnv = process.env): AlertAuthenticator {
+    const split = (value?: string) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+    const publicKeys = split(env.ALERT_ALLOWED_PUBLIC_KEYS).map(key => {
+      try {
+        return PublicKey.fromString(key);
+      } catch {
+        throw new Error(`Invalid public key in ALERT_ALLOWED_PUBLIC_KEYS: ${key}`);
+      }
+    });
+
+    let payers = split(env.ALERT_ALLOWED_PAYER_ACCOUNTS);
+    if (publicKeys.length === 0 && payers.length === 0 && env.HEDERA_ACCOUNT_ID) {
+      payers = [env.HEDERA_ACCOUNT_ID];
+    }
+
+    const signatureWindowMs = parseInt(env.ALERT_SIGNATURE_WINDOW_MS || '300000');
+    if (!(signatureWindowMs > 0)) {
+      throw new Error(`ALERT_SIGNATURE_WINDOW_MS must be a positive number of milliseconds, got "${env.ALERT_SIGNATURE_WINDOW_MS}"`);
+    }
+
+    return new AlertAuthenticator(publicKeys, payers, signatureWindowMs, new AcceptedAlertStore(env.ALERT_ACCEPTED_FILE));
+  }
+
+  /**
+   * Check a parsed alert against the allowlists
+   * @param payer account that paid for the consensus message (initial transaction ID), if known
+   * @param consensusTimestamp "seconds.nanos" consensus timestamp of the message
+   * @param sequenceNumber topic sequence number of the message
+   */
+  authenticate(message: AlertMessage, payer?: string, consensusTimestamp?: string, sequenceNumber?: number): AlertAuthResult {
+    if (message.signature) {
+      const payload = canonicalAlertPayload(message);
+      const signature = Buffer.from(message.signature, 'hex');
+      const signer = this.allowedPublicKeys.find(key => {
+        try {
+          return key.verify(payload, signature);
+        } catch {
+          return false;
+        }
+      });
+
+      if (signer) {
+        const replay = this.checkReplay(message, payload, consensusTimestamp, sequenceNumber);
+        if (replay) {
+          return { ok: false, error: replay };
+        }
+        return { ok: true, method: 'signature', signer: signer.toStringDer() };
+      }
+      if (this.allowedPublicKeys.length > 0) {
+        return { ok: false, error: 'Signature does not match any allowed governance public key' };
+      }
+    }
+
+    if (payer && this.allowedPayers.includes(payer)) {
+      if (message.sender !== payer) {
+        return { ok: false, error: `Claimed sender ${message.sender} does not match payer ${payer}` };
+      }
+      return { ok: true, method: 'payer', signer: payer };
+    }
+
+    return {
+      ok: false,
+      error: payer
+        ? `Payer ${payer} is not an allowed alert sender and the message has no valid signature`
+        : 'Message has no valid signature and the payer account is unknown'
+    };
+  }
+
+  /**
+   * Why a verified signed alert must still be rejected as a replay, if it must. An accepted
+   * alert is recorded by the digest of its signed payload, not its signature, since ECDSA
+   * signatures can be altered without invalidating them. The message it was accepted from is
+   * not a replay: it is processed again when the agent stopped before its cursor moved past it.
+   */
+  private checkReplay(message: AlertMessage, payload: Uint8Array, consensusTimestamp?: string, sequenceNumber?: number): string | undefined {
+    if (!consensusTimestamp || sequenceNumber === undefined) {
+      return 'Signed alert has no consensus timestamp and sequence number to check it against';
+    }
+
+    const consensusMs = parseConsensusTimestamp(consensusTimestamp).toDate().getTime();
+    const signedMs = Date.parse(message.timestamp);
+    if (Math.abs(consensusMs - signedMs) > this.signatureWindowMs) {
+      return `Signed timestamp ${message.timestamp} is more than ${this.signatureWindowMs}ms from the consensus time ${new Date(consensusMs).toISOString()} (replayed or stale alert)`;
+    }
+
+    const digest = createHash('sha256').update(payload).digest('hex');
+    const acceptedFrom = this.acceptedAlerts.acceptedSequenceNumber(digest);
+    if (acceptedFrom === sequenceNumber) {
+      return undefined;
+    }
+    if (acceptedFrom !== undefined) {
+      return `Signed alert was already accepted from message #${acceptedFrom} (replayed copy)`;
+    }
+    this.acceptedAlerts.add(digest, sequenceNumber, signedMs + this.signatureWindowMs, consensusMs);
+    return undefined;
+  }
+
+  /**
+   * Summary of the configured allowlists for startup logs
+   */
+  describe(): string {
+    return `${this.allowedPublicKeys.length} public key(s), payers: ${this.allowedPayers.join(', ') || 'none'}, signature window ${this.signatureWindowMs}ms`;
+  }
+}
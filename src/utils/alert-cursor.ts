@@ -0,0 +1,51 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { Logger } from './logger.js';
+
+const logger = new Logger('alerts');
+
+/**
+ * Last alert processed by the agent, plus control state that must survive restarts
+ */
+export interface AlertCursor {
+  topicId: string;
+  sequenceNumber: number;
+  consensusTimestamp: string; // "seconds.nanos"
+  paused: boolean;
+  updatedAt: string;
+}
+
+/**
+ * Alert Cursor Store
+ * Persists the alert cursor as JSON (ALERT_CURSOR_FILE, default .balancer/alert-cursor.json)
+ * so that messages published while the agent was down can be replayed on startup.
+ */
+export class AlertCursorStore {
+  constructor(private readonly path: string = process.env.ALERT_CURSOR_FILE || '.balancer/alert-cursor.json') {}
+
+  /**
+   * Load the cursor for a topic; a cursor saved for a different topic is ignored
+   */
+  load(topicId: string): AlertCursor | undefined {
+    if (!existsSync(this.path)) {
+      return undefined;
+    }
+
+    const cursor = JSON.parse(readFileSync(this.path, 'utf8')) as AlertCursor;
+    if (cursor.topicId !== topicId) {
+      logger.warn(`⚠️  Alert cursor in ${this.path} is for topic ${cursor.topicId}, not ${topicId} - ignoring it`);
+      return undefined;
+    }
+    return cursor;
+  }
+
+  /**
+   * Write the cursor atomically (temp file + rename)
+   */
+  save(cursor: Omit<AlertCursor, 'updatedAt'>): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify({ ...cursor, updatedAt: new Date().toISOString() }, null, 2));
+    renameSync(tempPath, this.path);
+  }
+}
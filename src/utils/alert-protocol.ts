@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { PrivateKey } from '@hashgraph/sdk';
+
+/**
+ * Protocol identifier and version carried by every BALANCER_ALERT_TOPIC message
+ */
+export const ALERT_PROTOCOL = 'lynx-balancer-alert';
+export const ALERT_PROTOCOL_VERSION = 1;
+
+export const ALERT_TYPES = ['RATIO_UPDATE', 'FORCE_REBALANCE', 'PAUSE', 'RESUME', 'STATUS_REQUEST'] as const;
+export type AlertType = typeof ALERT_TYPES[number];
+
+const accountIdSchema = z.string().regex(/^\d+\.\d+\.\d+$/, 'must be a Hedera account ID (shard.realm.num)');
+
+const envelope = {
+  protocol: z.literal(ALERT_PROTOCOL),
+  version: z.literal(ALERT_PROTOCOL_VERSION),
+  sender: accountIdSchema,
+  timestamp: z.string().datetime(),
+  proposalId: z.string().min(1).optional(),
+  signature: z.string().regex(/^[0-9a-fA-F]+$/, 'must be hex encoded').optional()
+};
+
+/**
+ * Versioned alert message schema, discriminated by type
+ */
+export const alertMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...envelope,
+    type: z.literal('RATIO_UPDATE'),
+    proposalId: z.string().min(1),
+    ratios: z.record(z.string().min(1), z.number().int().nonnegative())
+      .refine(ratios => Object.keys(ratios).length > 0, 'must contain at least one ratio')
+  }).strict(),
+  z.object({
+    ...envelope,
+    type: z.literal('FORCE_REBALANCE'),
+    reason: z.string().optional()
+  }).strict(),
+  z.object({
+    ...envelope,
+    type: z.literal('PAUSE'),
+    reason: z.string().optional()
+  }).strict(),
+  z.object({
+    ...envelope,
+    type: z.literal('RESUME'),
+    reason: z.string().optional()
+  }).strict(),
+  z.object({
+    ...envelope,
+    type: z.literal('STATUS_REQUEST')
+  }).strict()
+]);
+
+export type AlertMessage = z.infer<typeof alertMessageSchema>;
+export type RatioUpdateAlert = Extract<AlertMessage, { type: 'RATIO_UPDATE' }>;
+
+export type AlertParseResult =
+  | { ok: true; message: AlertMessage }
+  | { ok: false; error: string };
+
+/**
+ * Parse and validate raw topic message contents.
+ * Never throws: malformed messages are returned as errors so the caller can reject them.
+ */
+export function parseAlertMessage(contents: Uint8Array | string): AlertParseResult {
+  const text = typeof contents === 'string' ? contents : Buffer.from(contents).toString('utf8');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'Message is not valid JSON' };
+  }
+
+  if (typeof data === 'object' && data !== null && 'version' in data && data.version !== ALERT_PROTOCOL_VERSION) {
+    return { ok: false, error: `Unsupported protocol version ${String(data.version)} (expected ${ALERT_PROTOCOL_VERSION})` };
+  }
+
+  const result = alertMessageSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'message'}: ${issue.message}`);
+    return { ok: false, error: issues.join('; ') };
+  }
+
+  return { ok: true, message: result.data };
+}
+
+/**
+ * Build an alert message with the protocol envelope filled in
+ */
+export function createAlertMessage<T extends AlertType>(
+  type: T,
+  sender: string,
+  fields: Omit<Extract<AlertMessage, { type: T }>, 'protocol' | 'version' | 'type' | 'sender' | 'timestamp'>
+): Extract<AlertMessage, { type: T }> {
+  const message = {
+    protocol: ALERT_PROTOCOL,
+    version: ALERT_PROTOCOL_VERSION,
+    type,
+    sender,
+    timestamp: new Date().toISOString(),
+    ...fields
+  };
+
+  // Validate on the way out too, so senders cannot emit messages the agent would reject
+  return alertMessageSchema.parse(message) as Extract<AlertMessage, { type: T }>;
+}
+
+/**
+ * JSON with object keys sorted recursively, so field order does not change signed or hashed bytes
+ */
+export function canonicalJson(value: unknown): string {
+  const sortKeys = (item: unknown): unknown => {
+    if (Array.isArray(item)) return item.map(sortKeys);
+    if (typeof item === 'object' && item !== null) {
+      return Object.fromEntries(
+        Object.keys(item).sort().map(key => [key, sortKeys((item as Record<string, unknown>)[key])])
+      );
+    }
+    return item;
+  };
+
+  return JSON.stringify(sortKeys(value));
+}
+
+/**
+ * Bytes covered by the signature: the message without its signature field,
+ * serialized as JSON with sorted keys so field order does not matter
+ */
+export function canonicalAlertPayload(message: AlertMessage): Uint8Array {
+  const unsigned: Partial<AlertMessage> = { ...message };
+  delete unsigned.signature;
+  return Buffer.from(canonicalJson(unsigned), 'utf8');
+}
+
+/**
+ * Sign an alert message with a governance key, returning the message with its hex signature
+ */
+export function signAlertMessage<T extends AlertMessage>(message: T, privateKey: PrivateKey): T {
+  const signature = privateKey.sign(canonicalAlertPayload(message));
+  return { ...message, signature: Buffer.from(signature).toString('hex') };
+}
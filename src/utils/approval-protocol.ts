@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { PrivateKey, PublicKey } from '@hashgraph/sdk';
+import { canonicalJson } from './alert-protocol.js';
+import { ContractStateSnapshot } from './dashboard-publisher.js';
+
+/**
+ * Protocol identifier and version of approval requests and decisions
+ */
+export const APPROVAL_PROTOCOL = 'lynx-balancer-approval';
+export const APPROVAL_PROTOCOL_VERSION = 1;
+
+/**
+ * A planned step as presented for approval
+ */
+export interface ApprovalStep {
+  tokenSymbol: string;
+  tokenId: string;
+  action: 'withdraw' | 'deposit';
+  amount: string;
+  amountSmallestUnits: string;
+  contractFunction: string;
+}
+
+/**
+ * Plan proposed by the agent; planHash covers every other field
+ */
+export interface ApprovalRequest {
+  protocol: typeof APPROVAL_PROTOCOL;
+  version: typeof APPROVAL_PROTOCOL_VERSION;
+  type: 'APPROVAL_REQUEST';
+  planHash: string;
+  runId: string;
+  agentAccountId: string;
+  contractId: string;
+  trigger: string;
+  reason: string;
+  createdAt: string;
+  expiresAt: string;
+  steps: ApprovalStep[];
+  state: ContractStateSnapshot;
+}
+
+/**
+ * Signed APPROVE / REJECT decision for a plan hash
+ */
+export const approvalDecisionSchema = z.object({
+  protocol: z.literal(APPROVAL_PROTOCOL),
+  version: z.literal(APPROVAL_PROTOCOL_VERSION),
+  type: z.enum(['APPROVE', 'REJECT']),
+  planHash: z.string().regex(/^[0-9a-f]{64}$/, 'must be a hex SHA-256 hash'),
+  approver: z.string().regex(/^\d+\.\d+\.\d+$/, 'must be a Hedera account ID (shard.realm.num)'),
+  timestamp: z.string().datetime(),
+  reason: z.string().optional(),
+  signature: z.string().regex(/^[0-9a-fA-F]+$/, 'must be hex encoded')
+}).strict();
+
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+
+export type ApprovalDecisionParseResult =
+  | { ok: true; decision: ApprovalDecision }
+  | { ok: false; error: string };
+
+/**
+ * Hash of a request without its planHash field (hex SHA-256 of the canonical JSON)
+ */
+export function computePlanHash(request: Omit<ApprovalRequest, 'planHash'>): string {
+  const unhashed: Partial<ApprovalRequest> = { ...request };
+  delete unhashed.planHash;
+  return createHash('sha256').update(canonicalJson(unhashed)).digest('hex');
+}
+
+/**
+ * Build an approval request with the protocol envelope and plan hash filled in
+ */
+export function createApprovalRequest(
+  fields: Omit<ApprovalRequest, 'protocol' | 'version' | 'type' | 'planHash'>
+): ApprovalRequest {
+  const request = { protocol: APPROVAL_PROTOCOL, version: APPROVAL_PROTOCOL_VERSION, type: 'APPROVAL_REQUEST', ...fields } as const;
+  return { ...request, planHash: computePlanHash(request) };
+}
+
+/**
+ * Parse and validate a decision. Never throws; approval requests published on the same topic
+ * are reported as errors as well, so callers can skip anything that is not a decision.
+ */
+export function parseApprovalDecision(contents: Uint8Array | string): ApprovalDecisionParseResult {
+  const text = typeof contents === 'string' ? contents : Buffer.from(contents).toString('utf8');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'Message is not valid JSON' };
+  }
+
+  const result = approvalDecisionSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'message'}: ${issue.message}`);
+    return { ok: false, error: issues.join('; ') };
+  }
+
+  return { ok: true, decision: result.data };
+}
+
+/**
+ * Bytes covered by a decision signature: the decision without its signature, with sorted keys
+ */
+export function canonicalDecisionPayload(decision: Omit<ApprovalDecision, 'signature'> & { signature?: string }): Uint8Array {
+  const unsigned = { ...decision };
+  delete unsigned.signature;
+  return Buffer.from(canonicalJson(unsigned), 'utf8');
+}
+
+/**
+ * Create and sign a decision for a plan hash
+ */
+export function signApprovalDecision(
+  type: ApprovalDecision['type'],
+  planHash: string,
+  approver: string,
+  privateKey: PrivateKey,
+  reason?: string
+): ApprovalDecision {
+  const unsigned = {
+    protocol: APPROVAL_PROTOCOL,
+    version: APPROVAL_PROTOCOL_VERSION,
+    type,
+    planHash,
+    approver,
+    timestamp: new Date().toISOString(),
+    ...(reason ? { reason } : {})
+  } as const;
+
+  const signature = Buffer.from(privateKey.sign(canonicalDecisionPayload(unsigned))).toString('hex');
+  return approvalDecisionSchema.parse({ ...unsigned, signature });
+}
+
+/**
+ * The allowed key that signed a decision, or undefined if none did
+ */
+export function findDecisionSigner(decision: ApprovalDecision, allowedKeys: PublicKey[]): PublicKey | undefined {
+  const payload = canonicalDecisionPayload(decision);
+  const signature = Buffer.from(decision.signature, 'hex');
+  return allowedKeys.find(key => {
+    try {
+      return key.verify(payload, signature);
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+
+import { config } from 'dotenv';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { PrivateKey, TopicMessageSubmitTransaction } from '@hashgraph/sdk';
+import { createHederaClient } from './hedera-client.js';
+import { ApprovalDecision, ApprovalRequest, computePlanHash, signApprovalDecision } from './approval-protocol.js';
+
+// Load environment variables
+config();
+
+/**
+ * Plan Approver
+ *
+ * Reviews approval requests and signs APPROVE / REJECT decisions for a plan hash.
+ * Decisions go to APPROVAL_TOPIC, or into APPROVAL_DIR next to the request file.
+ * Signs with APPROVAL_SIGNING_KEY if set, otherwise the operator key.
+ */
+
+/**
+ * Send a signed decision to APPROVAL_TOPIC, or write it to APPROVAL_DIR
+ */
+async function submitDecision(decision: ApprovalDecision): Promise<void> {
+  const topicId = process.env.APPROVAL_TOPIC;
+  if (topicId) {
+    const client = createHederaClient();
+    try {
+      const response = await new TopicMessageSubmitTransaction()
+        .setTopicId(topicId)
+        .setMessage(JSON.stringify(decision))
+        .execute(client);
+      const receipt = await response.getReceipt(client);
+      console.log(`✅ ${decision.type} sent to ${topicId} (sequence ${receipt.topicSequenceNumber})`);
+    } finally {
+      client.close();
+    }
+    return;
+  }
+
+  const directory = process.env.APPROVAL_DIR;
+  if (!directory) {
+    throw new Error('Set APPROVAL_TOPIC or APPROVAL_DIR');
+  }
+  const path = join(directory, `${decision.planHash}.${decision.approver}.decision.json`);
+  writeFileSync(path, JSON.stringify(decision, null, 2));
+  console.log(`✅ ${decision.type} written to ${path}`);
+}
+
+/**
+ * Print a request from APPROVAL_DIR and check that its hash matches its contents
+ */
+function showRequest(planHash: string): void {
+  const path = join(process.env.APPROVAL_DIR || '', `${planHash}.request.json`);
+  if (!process.env.APPROVAL_DIR || !existsSync(path)) {
+    throw new Error(`No request file ${path} (requests on APPROVAL_TOPIC are shown by the mirror node / dashboard)`);
+  }
+
+  const request = JSON.parse(readFileSync(path, 'utf8')) as ApprovalRequest;
+  const hashMatches = computePlanHash(request) === request.planHash && request.planHash === planHash;
+
+  console.log(`📋 Plan ${request.planHash} ${hashMatches ? '(hash verified)' : '⚠️  HASH MISMATCH - do not approve'}`);
+  console.log(`   Run ${request.runId}, trigger: ${request.trigger}`);
+  console.log(`   Needs approval because: ${request.reason}`);
+  console.log(`   Created ${request.createdAt}, expires ${request.expiresAt}`);
+  for (const step of request.steps) {
+    console.log(`   - ${step.action} ${step.amount} ${step.tokenSymbol} (${step.contractFunction}, ${step.amountSmallestUnits} smallest units)`);
+  }
+  console.log(`   State: LYNX supply ${request.state.lynxTotalSupply}; ${request.state.assets.map(asset => `${asset.symbol}=${asset.balance}`).join(', ')}`);
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  console.log('🦌⚡ Plan Approver');
+  console.log('=================');
+
+  const args = process.argv.slice(2);
+  const command = (args[0] || '').toLowerCase();
+  const planHash = (args[1] || '').toLowerCase();
+  const reason = args.slice(2).join(' ') || undefined;
+
+  if (!['approve', 'reject', 'show'].includes(command) || !/^[0-9a-f]{64}$/.test(planHash)) {
+    console.log('📋 Available commands:');
+    console.log('  show <planHash>              - Print a request from APPROVAL_DIR and verify its hash');
+    console.log('  approve <planHash> [reason]  - Sign and send an APPROVE decision');
+    console.log('  reject <planHash> [reason]   - Sign and send a REJECT decision');
+    console.log('\n💡 Example:');
+    console.log('   npm run approve -- approve 3f2a...c9 Reviewed in DAO call');
+    return;
+  }
+
+  try {
+    if (command === 'show') {
+      showRequest(planHash);
+      return;
+    }
+
+    const signingKey = PrivateKey.fromString(process.env.APPROVAL_SIGNING_KEY || process.env.HEDERA_PRIVATE_KEY!);
+    const approver = process.env.APPROVER_ACCOUNT_ID || process.env.HEDERA_ACCOUNT_ID!;
+    const decision = signApprovalDecision(command === 'approve' ? 'APPROVE' : 'REJECT', planHash, approver, signingKey, reason);
+    console.log(`🔏 Signed by ${approver} with public key ${signingKey.publicKey.toStringDer()}`);
+
+    await submitDecision(decision);
+  } catch (error) {
+    console.error('❌ Failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
@@ -1,5 +1,9 @@
-import { Client, ContractCallQuery, ContractId, TokenInfoQuery, TokenId, AccountInfoQuery, AccountId } from '@hashgraph/sdk';
+import { Client, TokenInfoQuery, TokenId, AccountInfoQuery, AccountId } from '@hashgraph/sdk';
 import dotenv from 'dotenv';
+import { TokenRegistry } from './token-registry.js';
+import { createHederaClient } from './hedera-client.js';
+import { fetchBasketRatios } from './contract-state-manager.js';
+import { TokenAmount } from './token-amount.js';
 
 // Load environment variables
 dotenv.config();
@@ -7,18 +11,79 @@ dotenv.config();
 interface TokenInfo {
   tokenId: string;
   symbol: string;
-  decimals: number;
-  rawBalance: string;
-  humanBalance: number;
+  balance: TokenAmount;
 }
 
-interface RatioData {
-  HBAR: number;
-  WBTC: number;
-  SAUCE: number;
-  USDC: number;
-  JAM: number;
-  HEADSTART: number;
+type RatioData = Record<string, number>;
+
+/**
+ * Default tolerance for a balance to count as matching its ratio
+ */
+export const DEFAULT_TOLERANCE_PERCENT = 5;
+
+/**
+ * Result of comparing an actual balance with its required balance
+ */
+export interface BalanceComparison {
+  symbol: string;
+  required: TokenAmount;
+  actual: TokenAmount;
+  difference: TokenAmount; // absolute
+  diffPercent: number;
+  withinTolerance: boolean;
+}
+
+/**
+ * Required balance for a ratio: (LYNX Supply × Ratio) ÷ 10, expressed in the token's decimals
+ */
+export function requiredBalanceFor(lynxSupply: TokenAmount, ratio: number, decimals: number): TokenAmount {
+  return TokenAmount.fromRaw(
+    (lynxSupply.raw * BigInt(ratio) * 10n ** BigInt(decimals)) / (10n * 10n ** BigInt(lynxSupply.decimals)),
+    decimals
+  );
+}
+
+/**
+ * Compare an actual balance with the required balance, exactly in smallest units
+ */
+export function compareBalance(
+  symbol: string,
+  required: TokenAmount,
+  actual: TokenAmount,
+  tolerancePercent: number = DEFAULT_TOLERANCE_PERCENT
+): BalanceComparison {
+  const difference = actual.sub(required).abs();
+  const diffPercent = required.isZero() ? 0 : Number((difference.raw * 10000n) / required.raw) / 100;
+  const toleranceBasisPoints = BigInt(Math.round(tolerancePercent * 100));
+
+  return {
+    symbol,
+    required,
+    actual,
+    difference,
+    diffPercent,
+    withinTolerance: required.isZero()
+      ? actual.isZero()
+      : difference.raw * 10000n <= toleranceBasisPoints * required.raw
+  };
+}
+
+/**
+ * Compare every basket balance with the balance required by its ratio
+ */
+export function compareBasketBalances(
+  ratios: RatioData,
+  lynxSupply: TokenAmount,
+  balances: Record<string, TokenAmount>,
+  tolerancePercent: number = DEFAULT_TOLERANCE_PERCENT
+): BalanceComparison[] {
+  return Object.entries(ratios).map(([symbol, ratio]) => {
+    const actual = balances[symbol];
+    if (!actual) {
+      throw new Error(`No balance provided for ${symbol}`);
+    }
+    return compareBalance(symbol, requiredBalanceFor(lynxSupply, ratio, actual.decimals), actual, tolerancePercent);
+  });
 }
 
 /**
@@ -27,34 +92,10 @@ interface RatioData {
  */
 export class BalanceVerifier {
   private client: Client;
-  
-  // Token mappings from env
-  private tokenMappings = {
-    SAUCE: process.env.CONTRACT_SAUCE_TOKEN!,
-    LYNX: process.env.CONTRACT_LYNX_TOKEN!,
-    WBTC: process.env.CONTRACT_WBTC_TOKEN!,
-    USDC: process.env.CONTRACT_USDC_TOKEN!,
-    JAM: process.env.CONTRACT_JAM_TOKEN!,
-    HEADSTART: process.env.CONTRACT_HEADSTART_TOKEN!
-  };
 
-  constructor() {
-    // Initialize client based on environment
-    const network = process.env.HEDERA_NETWORK || 'testnet';
-    
-    if (network === 'mainnet') {
-      this.client = Client.forMainnet();
-    } else {
-      this.client = Client.forTestnet();
-    }
-
-    // Set operator if credentials are available
-    const accountId = process.env.HEDERA_ACCOUNT_ID;
-    const privateKey = process.env.HEDERA_PRIVATE_KEY;
-    
-    if (accountId && privateKey) {
-      this.client.setOperator(accountId, privateKey);
-    }
+  constructor(private registry: TokenRegistry = TokenRegistry.load()) {
+    // Initialize client for the configured network
+    this.client = createHederaClient();
   }
 
   /**
@@ -75,7 +116,7 @@ export class BalanceVerifier {
 
       // Step 2: Get LYNX total supply  
       console.log('🔢 Step 2: Fetching LYNX total supply...');
-      const lynxSupply = await this.getTokenSupply(this.tokenMappings.LYNX);
+      const lynxSupply = await this.getTokenSupply(this.registry.lynxTokenId);
       console.log(`✅ LYNX Supply: ${lynxSupply} tokens`);
       console.log('');
 
@@ -90,7 +131,7 @@ export class BalanceVerifier {
       const tokenBalances = await this.getTokenBalances(contractId);
       console.log('✅ Token Balances:');
       tokenBalances.forEach(token => {
-        console.log(`   ${token.symbol}: ${token.humanBalance} (${token.rawBalance} raw, ${token.decimals} decimals)`);
+        console.log(`   ${token.symbol}: ${token.balance} (${token.balance.raw} raw, ${token.balance.decimals} decimals)`);
       });
       console.log('');
 
@@ -107,84 +148,54 @@ export class BalanceVerifier {
    * Get current ratios from governance contract
    */
   private async getContractRatios(contractId: string): Promise<RatioData> {
-    const contractCallQuery = new ContractCallQuery()
-      .setContractId(ContractId.fromString(contractId))
-      .setGas(100000)
-      .setFunction('getCurrentRatios');
-
-    const response = await contractCallQuery.execute(this.client);
-    
-    return {
-      HBAR: parseInt(response.getUint256(0).toString()),
-      WBTC: parseInt(response.getUint256(1).toString()),
-      SAUCE: parseInt(response.getUint256(2).toString()),
-      USDC: parseInt(response.getUint256(3).toString()),
-      JAM: parseInt(response.getUint256(4).toString()),
-      HEADSTART: parseInt(response.getUint256(5).toString())
-    };
+    return fetchBasketRatios(this.client, contractId, this.registry);
   }
 
   /**
    * Get token total supply
    */
-  private async getTokenSupply(tokenId: string): Promise<number> {
+  private async getTokenSupply(tokenId: string): Promise<TokenAmount> {
     const tokenInfoQuery = new TokenInfoQuery()
       .setTokenId(TokenId.fromString(tokenId));
 
     const response = await tokenInfoQuery.execute(this.client);
-    const totalSupply = Number(response.totalSupply);
-    const decimals = response.decimals;
-    
-    // Convert to human readable
-    return totalSupply / Math.pow(10, decimals);
+    return TokenAmount.fromRaw(response.totalSupply, response.decimals);
   }
 
   /**
    * Get HBAR balance for account
    */
-  private async getHbarBalance(accountId: string): Promise<number> {
+  private async getHbarBalance(accountId: string): Promise<TokenAmount> {
     const accountInfoQuery = new AccountInfoQuery()
       .setAccountId(AccountId.fromString(accountId));
 
     const response = await accountInfoQuery.execute(this.client);
-    // Convert from tinybars to HBAR
-    const balanceInTinybars = response.balance.toString();
-    return Number(balanceInTinybars) / 100000000;
+    // Keep the balance in tinybars
+    return TokenAmount.fromRaw(response.balance.toTinybars(), 8);
   }
 
   /**
-   * Get all token balances for an account
+   * Get balances of all registered tokens for an account
    */
   private async getTokenBalances(accountId: string): Promise<TokenInfo[]> {
-    // Note: This is a simplified version. In a real implementation,
-    // you might need to use the mirror node API to get all token balances
-    // For now, we'll check the specific tokens we care about
-    
     const accountInfoQuery = new AccountInfoQuery()
       .setAccountId(AccountId.fromString(accountId));
 
     const response = await accountInfoQuery.execute(this.client);
     const tokenBalances: TokenInfo[] = [];
 
-    // Get token relationships (this gives us which tokens the account holds)
+    // Token relationships give us the balance of every associated token
     const tokenRelationships = response.tokenRelationships;
-    
-    for (const [tokenId, relationship] of tokenRelationships) {
-      // Get token info to get symbol and decimals
-      const tokenInfoQuery = new TokenInfoQuery()
-        .setTokenId(tokenId);
-      
-      const tokenInfo = await tokenInfoQuery.execute(this.client);
-      const rawBalance = relationship.balance.toString();
-      const decimals = tokenInfo.decimals;
-      const humanBalance = Number(rawBalance) / Math.pow(10, decimals);
+
+    for (const token of this.registry.getTokens()) {
+      if (token.tokenId === 'HBAR') continue;
+
+      const relationship = tokenRelationships.get(TokenId.fromString(token.tokenId));
       
       tokenBalances.push({
-        tokenId: tokenId.toString(),
-        symbol: tokenInfo.symbol,
-        decimals: decimals,
-        rawBalance: rawBalance,
-        humanBalance: humanBalance
+        tokenId: token.tokenId,
+        symbol: token.symbol,
+        balance: relationship ? TokenAmount.fromRaw(relationship.balance, token.decimals) : TokenAmount.zero(token.decimals)
       });
     }
 
@@ -196,8 +207,8 @@ export class BalanceVerifier {
    */
   private async calculateAndCompareBalances(
     ratios: RatioData,
-    lynxSupply: number,
-    actualHbar: number,
+    lynxSupply: TokenAmount,
+    actualHbar: TokenAmount,
     actualTokens: TokenInfo[]
   ): Promise<void> {
     console.log('📈 BALANCE ANALYSIS');
@@ -206,50 +217,29 @@ export class BalanceVerifier {
     console.log(`LYNX Supply: ${lynxSupply}`);
     console.log('');
 
-    const tolerance = 0.05; // 5% tolerance
-    const outOfBalance: string[] = [];
-
-    // Check HBAR
-    const requiredHbar = (lynxSupply * ratios.HBAR) / 10;
-    const hbarDiff = Math.abs(actualHbar - requiredHbar);
-    const hbarDiffPercent = (hbarDiff / requiredHbar) * 100;
-    
-    console.log(`🔹 HBAR:`);
-    console.log(`   Required: ${requiredHbar.toFixed(2)} HBAR`);
-    console.log(`   Actual: ${actualHbar.toFixed(2)} HBAR`);
-    console.log(`   Difference: ${hbarDiff.toFixed(2)} HBAR (${hbarDiffPercent.toFixed(2)}%)`);
-    console.log(`   Status: ${hbarDiffPercent > tolerance * 100 ? '❌ OUT OF BALANCE' : '✅ BALANCED'}`);
-    
-    if (hbarDiffPercent > tolerance * 100) {
-      outOfBalance.push('HBAR');
+    const balances: Record<string, TokenAmount> = {};
+    for (const token of this.registry.getTokens()) {
+      const actualToken = actualTokens.find(t => t.tokenId === token.tokenId);
+      balances[token.symbol] = token.tokenId === 'HBAR'
+        ? actualHbar
+        : (actualToken ? actualToken.balance : TokenAmount.zero(token.decimals));
     }
-    console.log('');
 
-    // Check each token
-    const tokenChecks = ['WBTC', 'SAUCE', 'USDC', 'JAM', 'HEADSTART'] as const;
-    
-    for (const tokenSymbol of tokenChecks) {
-      const ratio = ratios[tokenSymbol];
-      const requiredAmount = (lynxSupply * ratio) / 10;
-      
-      // Find actual balance for this token
-      const actualToken = actualTokens.find(t => 
-        t.tokenId === this.tokenMappings[tokenSymbol] || 
-        t.symbol === tokenSymbol
-      );
-      
-      const actualAmount = actualToken ? actualToken.humanBalance : 0;
-      const diff = Math.abs(actualAmount - requiredAmount);
-      const diffPercent = requiredAmount > 0 ? (diff / requiredAmount) * 100 : 0;
+    const comparisons = compareBasketBalances(ratios, lynxSupply, balances);
+    const outOfBalance: string[] = [];
+
+    // Check each basket token in registry order
+    for (const comparison of comparisons) {
+      const unit = comparison.symbol === 'HBAR' ? 'HBAR' : 'tokens';
       
-      console.log(`🔹 ${tokenSymbol}:`);
-      console.log(`   Required: ${requiredAmount.toFixed(2)} tokens`);
-      console.log(`   Actual: ${actualAmount.toFixed(2)} tokens`);
-      console.log(`   Difference: ${diff.toFixed(2)} tokens (${diffPercent.toFixed(2)}%)`);
-      console.log(`   Status: ${diffPercent > tolerance * 100 ? '❌ OUT OF BALANCE' : '✅ BALANCED'}`);
+      console.log(`🔹 ${comparison.symbol}:`);
+      console.log(`   Required: ${comparison.required} ${unit}`);
+      console.log(`   Actual: ${comparison.actual} ${unit}`);
+      console.log(`   Difference: ${comparison.difference} ${unit} (${comparison.diffPercent.toFixed(2)}%)`);
+      console.log(`   Status: ${comparison.withinTolerance ? '✅ BALANCED' : '❌ OUT OF BALANCE'}`);
       
-      if (diffPercent > tolerance * 100) {
-        outOfBalance.push(tokenSymbol);
+      if (!comparison.withinTolerance) {
+        outOfBalance.push(comparison.symbol);
       }
       console.log('');
     }
@@ -259,7 +249,7 @@ export class BalanceVerifier {
     console.log('==========');
     if (outOfBalance.length > 0) {
       console.log(`❌ REBALANCE NEEDED: ${outOfBalance.join(', ')}`);
-      console.log(`   ${outOfBalance.length} token(s) are more than 5% out of balance`);
+      console.log(`   ${outOfBalance.length} token(s) are more than ${DEFAULT_TOLERANCE_PERCENT}% out of balance`);
     } else {
       console.log('✅ ALL BALANCED - No rebalancing needed');
     }
@@ -1,71 +1,63 @@
 import { Client, ContractCallQuery, ContractId, TokenInfoQuery, TokenId, AccountInfoQuery, AccountId } from '@hashgraph/sdk';
 import dotenv from 'dotenv';
+import { TokenAmount } from './token-amount.js';
+import { TokenRegistry } from './token-registry.js';
+import { createHederaClient } from './hedera-client.js';
+import { queryGasFromEnvironment } from './gas-estimator.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger('state-manager');
 
 // Load environment variables
 dotenv.config();
 
 /**
- * Token configuration for mapping IDs to symbols and decimals
+ * A basket asset with its target ratio and current contract balance
  */
-const TOKEN_CONFIG = {
-  HBAR: {
-    tokenId: 'HBAR',
-    decimals: 8,
-    name: 'HBAR'
-  },
-  SAUCE: {
-    tokenId: '0.0.1183558',
-    decimals: 6,
-    name: 'SAUCE'
-  },
-  WBTC: {
-    tokenId: '0.0.6212930',
-    decimals: 8,
-    name: 'WBTC'
-  },
-  USDC: {
-    tokenId: '0.0.6212931',
-    decimals: 6,
-    name: 'USDC'
-  },
-  JAM: {
-    tokenId: '0.0.6212932',
-    decimals: 8,
-    name: 'JAM'
-  },
-  HEADSTART: {
-    tokenId: '0.0.6212933',
-    decimals: 8,
-    name: 'HEADSTART'
-  }
-};
+export interface BasketAsset {
+  symbol: string;
+  tokenId: string; // 'HBAR' for the native currency
+  ratio: number;
+  balance: TokenAmount;
+}
 
 /**
  * Contract state data structure
  */
 export interface ContractState {
-  ratios: {
-    HBAR: number;
-    WBTC: number;
-    SAUCE: number;
-    USDC: number;
-    JAM: number;
-    HEADSTART: number;
-  };
-  lynxTotalSupply: number;
-  contractBalance: {
-    hbar: number;
-    tokens: {
-      SAUCE: number;
-      WBTC: number;
-      USDC: number;
-      JAM: number;
-      HEADSTART: number;
-    };
-  };
+  basket: BasketAsset[]; // in getCurrentRatios order
+  lynxTotalSupply: TokenAmount;
   lastUpdated: Date;
 }
 
+/**
+ * Read the basket ratios from getCurrentRatios, one uint256 slot per registry token.
+ * The slot count is checked against the registry so a governance change to the basket
+ * composition fails loudly instead of being misread.
+ */
+export async function fetchBasketRatios(client: Client, contractId: string, registry: TokenRegistry): Promise<Record<string, number>> {
+  const contractCallQuery = new ContractCallQuery()
+    .setContractId(ContractId.fromString(contractId))
+    .setGas(queryGasFromEnvironment())
+    .setFunction('getCurrentRatios');
+
+  const response = await contractCallQuery.execute(client);
+  const tokens = registry.getTokens();
+
+  const slotCount = response.bytes.length / 32;
+  if (slotCount !== tokens.length) {
+    throw new Error(
+      `Basket mismatch: getCurrentRatios returned ${slotCount} ratios but the token registry has ${tokens.length} tokens (${tokens.map(t => t.symbol).join(', ')}). Update the token registry to match the contract basket.`
+    );
+  }
+
+  const ratios: Record<string, number> = {};
+  tokens.forEach((token, index) => {
+    ratios[token.symbol] = parseInt(response.getUint256(index).toString());
+  });
+  return ratios;
+}
+
 /**
  * Contract State Manager
  * Handles fetching and parsing all contract-related data
@@ -75,96 +67,74 @@ export class ContractStateManager {
   private contractId: string;
   private lynxTokenId: string;
 
-  constructor() {
-    // Initialize Hedera client
-    const network = process.env.HEDERA_NETWORK || 'testnet';
-    this.client = network === 'mainnet' ? Client.forMainnet() : Client.forTestnet();
-    
-    // Set operator if credentials are available
-    const accountId = process.env.HEDERA_ACCOUNT_ID;
-    const privateKey = process.env.HEDERA_PRIVATE_KEY;
-    if (accountId && privateKey) {
-      this.client.setOperator(accountId, privateKey);
-    }
+  constructor(private registry: TokenRegistry = TokenRegistry.load()) {
+    // Initialize Hedera client for the configured network
+    this.client = createHederaClient();
 
     this.contractId = process.env.LYNX_CONTRACT_ID!;
-    this.lynxTokenId = process.env.CONTRACT_LYNX_TOKEN!;
+    this.lynxTokenId = registry.lynxTokenId;
 
-    if (!this.contractId || !this.lynxTokenId) {
-      throw new Error('Missing required environment variables: LYNX_CONTRACT_ID, CONTRACT_LYNX_TOKEN');
+    if (!this.contractId) {
+      throw new Error('Missing required environment variable: LYNX_CONTRACT_ID');
     }
   }
 
   /**
    * Fetch current contract ratios from governance contract
    */
-  async fetchContractRatios(): Promise<ContractState['ratios']> {
-    console.log('🔍 Fetching contract ratios...');
+  async fetchContractRatios(): Promise<Record<string, number>> {
+    logger.info('🔍 Fetching contract ratios...');
     
-    const contractCallQuery = new ContractCallQuery()
-      .setContractId(ContractId.fromString(this.contractId))
-      .setGas(100000)
-      .setFunction('getCurrentRatios');
+    const ratios = await fetchBasketRatios(this.client, this.contractId, this.registry);
 
-    const response = await contractCallQuery.execute(this.client);
-    
-    const ratios = {
-      HBAR: parseInt(response.getUint256(0).toString()),
-      WBTC: parseInt(response.getUint256(1).toString()),
-      SAUCE: parseInt(response.getUint256(2).toString()),
-      USDC: parseInt(response.getUint256(3).toString()),
-      JAM: parseInt(response.getUint256(4).toString()),
-      HEADSTART: parseInt(response.getUint256(5).toString())
-    };
-
-    console.log('✅ Contract ratios:', ratios);
+    logger.info('✅ Contract ratios', { ratios });
     return ratios;
   }
 
   /**
    * Fetch LYNX token total supply
    */
-  async fetchLynxTotalSupply(): Promise<number> {
-    console.log('🔍 Fetching LYNX total supply...');
+  async fetchLynxTotalSupply(): Promise<TokenAmount> {
+    logger.info('🔍 Fetching LYNX total supply...');
     
     const tokenInfoQuery = new TokenInfoQuery()
       .setTokenId(TokenId.fromString(this.lynxTokenId));
 
     const response = await tokenInfoQuery.execute(this.client);
-    const totalSupply = Number(response.totalSupply);
-    const decimals = response.decimals;
-    
-    // Convert to human readable
-    const humanReadableSupply = totalSupply / Math.pow(10, decimals);
+    const totalSupply = TokenAmount.fromRaw(response.totalSupply, response.decimals);
     
-    console.log(`✅ LYNX total supply: ${humanReadableSupply} tokens`);
-    return humanReadableSupply;
+    logger.info(`✅ LYNX total supply: ${totalSupply} tokens (${totalSupply.raw} raw, ${totalSupply.decimals} decimals)`);
+    return totalSupply;
   }
 
   /**
    * Fetch contract HBAR balance
    */
-  async fetchContractHbarBalance(): Promise<number> {
-    console.log('🔍 Fetching contract HBAR balance...');
+  async fetchContractHbarBalance(): Promise<TokenAmount> {
+    logger.info('🔍 Fetching contract HBAR balance...');
+
+    const hbar = this.registry.findByTokenId('HBAR');
+    if (!hbar) {
+      throw new Error('The basket has no native HBAR entry');
+    }
     
     const accountInfoQuery = new AccountInfoQuery()
       .setAccountId(AccountId.fromString(this.contractId));
 
     const response = await accountInfoQuery.execute(this.client);
     
-    // Handle BigNumber properly
-    const balanceInTinybars = response.balance;
-    const hbarBalance = Number(balanceInTinybars.toString()) / 100000000; // Convert tinybars to HBAR
+    // Keep the balance in tinybars (8 decimals)
+    const hbarBalance = TokenAmount.fromRaw(response.balance.toTinybars(), hbar.decimals);
     
-    console.log(`✅ Contract HBAR balance: ${hbarBalance} HBAR`);
+    logger.info(`✅ Contract HBAR balance: ${hbarBalance} HBAR`);
     return hbarBalance;
   }
 
   /**
-   * Fetch contract token balances
+   * Fetch contract balances of all HTS tokens in the basket
    */
-  async fetchContractTokenBalances(): Promise<ContractState['contractBalance']['tokens']> {
-    console.log('🔍 Fetching contract token balances...');
+  async fetchContractTokenBalances(): Promise<Record<string, TokenAmount>> {
+    logger.info('🔍 Fetching contract token balances...');
     
     const accountInfoQuery = new AccountInfoQuery()
       .setAccountId(AccountId.fromString(this.contractId));
@@ -172,77 +142,83 @@ export class ContractStateManager {
     const response = await accountInfoQuery.execute(this.client);
     const tokenRelationships = response.tokenRelationships;
     
-    const tokenBalances: ContractState['contractBalance']['tokens'] = {
-      SAUCE: 0,
-      WBTC: 0,
-      USDC: 0,
-      JAM: 0,
-      HEADSTART: 0
-    };
-
-    // Map token IDs to symbols and convert raw balances
-    const tokenIdToSymbol: Record<string, keyof typeof tokenBalances> = {
-      '0.0.1183558': 'SAUCE',
-      '0.0.6212930': 'WBTC',
-      '0.0.6212931': 'USDC',
-      '0.0.6212932': 'JAM',
-      '0.0.6212933': 'HEADSTART'
-    };
-
-    for (const [tokenId, relationship] of tokenRelationships) {
-      const tokenIdStr = tokenId.toString();
-      const symbol = tokenIdToSymbol[tokenIdStr];
-      
-      if (symbol) {
-        const rawBalance = Number(relationship.balance.toString());
-        const config = TOKEN_CONFIG[symbol];
-        const humanBalance = rawBalance / Math.pow(10, config.decimals);
-        
-        tokenBalances[symbol] = humanBalance;
-        console.log(`   ${symbol}: ${humanBalance} tokens (${rawBalance} raw, ${config.decimals} decimals)`);
-      }
+    const tokenBalances: Record<string, TokenAmount> = {};
+
+    // Registered tokens without a relationship have a zero balance
+    for (const token of this.registry.getTokens()) {
+      if (token.tokenId === 'HBAR') continue;
+
+      const relationship = tokenRelationships.get(TokenId.fromString(token.tokenId));
+      const balance = relationship
+        ? TokenAmount.fromRaw(relationship.balance, token.decimals)
+        : TokenAmount.zero(token.decimals);
+
+      tokenBalances[token.symbol] = balance;
+      logger.debug(`   ${token.symbol}: ${balance} tokens (${balance.raw} raw, ${token.decimals} decimals)`);
     }
 
-    console.log('✅ Contract token balances fetched');
+    logger.info('✅ Contract token balances fetched');
     return tokenBalances;
   }
 
+  /**
+   * Re-read the contract balance of a single basket token (used to verify an adjustment)
+   */
+  async fetchTokenBalance(symbol: string): Promise<TokenAmount> {
+    const token = this.registry.get(symbol);
+    if (token.tokenId === 'HBAR') {
+      return this.fetchContractHbarBalance();
+    }
+
+    const response = await new AccountInfoQuery()
+      .setAccountId(AccountId.fromString(this.contractId))
+      .execute(this.client);
+    const relationship = response.tokenRelationships.get(TokenId.fromString(token.tokenId));
+
+    return relationship
+      ? TokenAmount.fromRaw(relationship.balance, token.decimals)
+      : TokenAmount.zero(token.decimals);
+  }
+
   /**
    * Fetch all contract state data
    */
   async fetchContractState(): Promise<ContractState> {
-    console.log('🔄 Fetching complete contract state...');
+    logger.info('🔄 Fetching complete contract state...');
     
     try {
-      // Fetch all data in parallel for efficiency
+      // Fetch all data in parallel for efficiency; the HBAR balance only matters for a basket with a native entry
+      const hasNativeHbar = this.registry.findByTokenId('HBAR') !== undefined;
       const [ratios, lynxTotalSupply, hbarBalance, tokenBalances] = await Promise.all([
         this.fetchContractRatios(),
         this.fetchLynxTotalSupply(),
-        this.fetchContractHbarBalance(),
+        hasNativeHbar ? this.fetchContractHbarBalance() : undefined,
         this.fetchContractTokenBalances()
       ]);
 
+      const basket: BasketAsset[] = this.registry.getTokens().map(token => ({
+        symbol: token.symbol,
+        tokenId: token.tokenId,
+        ratio: ratios[token.symbol],
+        balance: token.tokenId === 'HBAR' ? hbarBalance! : tokenBalances[token.symbol]
+      }));
+
       const contractState: ContractState = {
-        ratios,
+        basket,
         lynxTotalSupply,
-        contractBalance: {
-          hbar: hbarBalance,
-          tokens: tokenBalances
-        },
         lastUpdated: new Date()
       };
 
-      console.log('✅ Contract state fetched successfully');
-      console.log('📊 State Summary:');
-      console.log(`   Ratios: HBAR=${ratios.HBAR}, WBTC=${ratios.WBTC}, SAUCE=${ratios.SAUCE}, USDC=${ratios.USDC}, JAM=${ratios.JAM}, HEADSTART=${ratios.HEADSTART}`);
-      console.log(`   LYNX Supply: ${lynxTotalSupply}`);
-      console.log(`   HBAR Balance: ${hbarBalance}`);
-      console.log(`   Token Balances: SAUCE=${tokenBalances.SAUCE}, WBTC=${tokenBalances.WBTC}, USDC=${tokenBalances.USDC}, JAM=${tokenBalances.JAM}, HEADSTART=${tokenBalances.HEADSTART}`);
+      logger.info('✅ Contract state fetched successfully', {
+        ratios: basket.map(asset => `${asset.symbol}=${asset.ratio}`).join(', '),
+        lynxSupply: lynxTotalSupply,
+        balances: basket.map(asset => `${asset.symbol}=${asset.balance}`).join(', ')
+      });
 
       return contractState;
       
     } catch (error) {
-      console.error('❌ Failed to fetch contract state:', error);
+      logger.error('❌ Failed to fetch contract state', { error });
       throw error;
     }
   }
@@ -0,0 +1,101 @@
+/**
+ * Field bounds for the five standard cron fields
+ */
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 } // 0 and 7 are both Sunday
+];
+
+/**
+ * Cron Schedule
+ * Minimal five-field cron expression ("minute hour day-of-month month day-of-week") supporting
+ * "*", numbers, ranges ("1-5"), lists ("0,30") and steps ("*\/10", "0-30/5"). Times are local.
+ */
+export class CronSchedule {
+  private readonly fields: Set<number>[];
+  private readonly dayOfMonthRestricted: boolean;
+  private readonly dayOfWeekRestricted: boolean;
+
+  constructor(readonly expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+    }
+
+    this.fields = parts.map((part, index) => CronSchedule.parseField(part, FIELDS[index], expression));
+    this.dayOfMonthRestricted = parts[2] !== '*';
+    this.dayOfWeekRestricted = parts[4] !== '*';
+  }
+
+  /**
+   * Next matching minute strictly after the given date
+   */
+  next(after: Date = new Date()): Date {
+    const candidate = new Date(after.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    // A valid expression matches at least once within four years (e.g. Feb 29)
+    const limit = after.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+    while (candidate.getTime() <= limit) {
+      if (this.matches(candidate)) {
+        return candidate;
+      }
+      candidate.setMinutes(candidate.getMinutes() + 1);
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never matches`);
+  }
+
+  private matches(date: Date): boolean {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = this.fields;
+    if (!minutes.has(date.getMinutes()) || !hours.has(date.getHours()) || !months.has(date.getMonth() + 1)) {
+      return false;
+    }
+
+    // Standard cron semantics: if both day fields are restricted, either may match
+    const dayOfMonthMatch = daysOfMonth.has(date.getDate());
+    const dayOfWeekMatch = daysOfWeek.has(date.getDay());
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonthMatch || dayOfWeekMatch;
+    }
+    return dayOfMonthMatch && dayOfWeekMatch;
+  }
+
+  private static parseField(field: string, bounds: { name: string; min: number; max: number }, expression: string): Set<number> {
+    const values = new Set<number>();
+    const invalid = () => new Error(`Invalid ${bounds.name} field "${field}" in cron expression "${expression}"`);
+
+    for (const item of field.split(',')) {
+      const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+      if (!match) {
+        throw invalid();
+      }
+
+      const [, range, start, end, step] = match;
+      let from = bounds.min;
+      let to = bounds.max;
+      if (range !== '*') {
+        from = parseInt(start);
+        to = end !== undefined ? parseInt(end) : step !== undefined ? bounds.max : from;
+      }
+
+      const increment = step !== undefined ? parseInt(step) : 1;
+      if (from < bounds.min || to > bounds.max || from > to || increment < 1) {
+        throw invalid();
+      }
+
+      for (let value = from; value <= to; value += increment) {
+        values.add(value);
+      }
+    }
+
+    if (bounds.name === 'day of week' && values.delete(7)) {
+      values.add(0);
+    }
+    return values;
+  }
+}
@@ -0,0 +1,162 @@
+import { Client, TopicMessageSubmitTransaction } from '@hashgraph/sdk';
+import { analyzeTokenRatio } from '../tools/token-ratio-tool.js';
+import { ContractState } from './contract-state-manager.js';
+import { TriggerQueueStatus } from '../agent/rebalance-trigger-queue.js';
+import { RiskViolation } from '../agent/risk-policy.js';
+import { ScheduleCreated } from './scheduled-execution.js';
+import { SubscriptionStatus } from './supervised-subscription.js';
+import { SubmissionFailure } from './transaction-errors.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger('dashboard');
+
+/**
+ * Version of the dashboard event schema
+ */
+export const DASHBOARD_EVENT_VERSION = 1;
+
+/**
+ * Per-asset view of the contract state with its drift from the target ratio
+ */
+export interface AssetSnapshot {
+  symbol: string;
+  tokenId: string;
+  ratio: number;
+  balance: string;
+  requiredBalance: string;
+  driftPercent: number;
+  balanceStatus: 'BALANCED' | 'EXCESS' | 'DEFICIT';
+}
+
+/**
+ * JSON-safe snapshot of a ContractState
+ */
+export interface ContractStateSnapshot {
+  lynxTotalSupply: string;
+  lastUpdated: string;
+  assets: AssetSnapshot[];
+}
+
+/**
+ * Result of one token adjustment, as reported on the dashboard
+ */
+export interface TokenAdjustment {
+  tokenSymbol: string;
+  tokenId: string;
+  action: 'withdraw' | 'deposit';
+  amount: string;
+  amountSmallestUnits: string;
+  contractFunction: string;
+  success: boolean;
+  transactionId?: string;
+  status?: string;
+  error?: string;
+  attempts: number;
+  transactionIds: string[];
+  verification?: 'verified' | 'partial' | 'failed';
+  verifiedBalance?: string;
+  preflight?: { decision: 'partial' | 'skip'; reason?: string };
+  riskLimited?: string; // why the risk policy reduced or blocked an attempt
+  failure?: SubmissionFailure; // class of the last submission failure
+  scheduleIds?: string[]; // schedules created in scheduled signing mode
+  receipts?: TransactionReceiptSummary[];
+}
+
+/**
+ * Receipt status, fee and gas of one submitted transaction
+ */
+export interface TransactionReceiptSummary {
+  transactionId?: string;
+  status?: string;
+  fee?: string; // HBAR
+  gasLimit?: string; // contract calls only
+  gasUsed?: string;
+  scheduleId?: string;
+  error?: string;
+}
+
+export type DashboardEvent =
+  | { type: 'REBALANCE_STARTED'; runId: string; trigger: string; before: ContractStateSnapshot; plannedSteps: number }
+  | ({ type: 'TOKEN_ADJUSTED'; runId: string } & TokenAdjustment)
+  | { type: 'REBALANCE_COMPLETED'; runId: string; trigger: string; before: ContractStateSnapshot; after: ContractStateSnapshot; adjustments: TokenAdjustment[]; durationMs: number }
+  | { type: 'REBALANCE_FAILED'; runId: string; trigger: string; error: string; before?: ContractStateSnapshot; after?: ContractStateSnapshot; adjustments: TokenAdjustment[] }
+  | { type: 'HEARTBEAT'; running: boolean; paused: boolean; rebalancingInProgress: boolean; triggerQueue: TriggerQueueStatus; uptimeSeconds: number; subscription: SubscriptionStatus; state?: ContractStateSnapshot }
+  | { type: 'STATUS'; inReplyTo?: string; requestedBy: string; running: boolean; paused: boolean; rebalancingInProgress: boolean; triggerQueue: TriggerQueueStatus; subscription: SubscriptionStatus; executionMode: string; network: string }
+  | { type: 'ALERT_REJECTED'; alertTopic?: string; sequenceNumber: string; consensusTimestamp: string; payer?: string; alertType?: string; claimedSender?: string; reason: string }
+  | { type: 'RISK_LIMIT_VIOLATION'; runId: string; trigger: string; decision: 'scale' | 'abort'; violations: RiskViolation[] }
+  | { type: 'APPROVAL_REQUESTED'; runId: string; trigger: string; planHash: string; reason: string; expiresAt: string }
+  | { type: 'APPROVAL_RESOLVED'; runId: string; planHash: string; status: 'approved' | 'rejected' | 'expired' | 'cancelled'; approvers: string[]; reason?: string }
+  | ({ type: 'SCHEDULE_CREATED' } & ScheduleCreated);
+
+/**
+ * Build a JSON-safe snapshot of a contract state, including drift for each asset
+ */
+export function snapshotContractState(state: ContractState): ContractStateSnapshot {
+  return {
+    lynxTotalSupply: state.lynxTotalSupply.toHuman(),
+    lastUpdated: state.lastUpdated.toISOString(),
+    assets: state.basket.map(asset => {
+      const analysis = analyzeTokenRatio({
+        tokenSymbol: asset.symbol,
+        currentBalance: asset.balance,
+        targetRatio: asset.ratio,
+        lynxTotalSupply: state.lynxTotalSupply
+      });
+
+      return {
+        symbol: asset.symbol,
+        tokenId: asset.tokenId,
+        ratio: asset.ratio,
+        balance: asset.balance.toHuman(),
+        requiredBalance: analysis.requiredBalance.toHuman(),
+        driftPercent: analysis.diffPercent,
+        balanceStatus: analysis.balanceStatus
+      };
+    })
+  };
+}
+
+/**
+ * Dashboard Publisher
+ * Publishes typed JSON events to DASHBOARD_ALERT_TOPIC with TopicMessageSubmitTransaction.
+ * Messages larger than one HCS message (1024 bytes) are split into chunks by the SDK.
+ * Publishing never throws: a dashboard outage must not interrupt rebalancing.
+ */
+export class DashboardPublisher {
+  constructor(
+    private client: Client,
+    private topicId: string,
+    private context: { agentAccountId: string; contractId: string },
+    private maxChunks = 20
+  ) {}
+
+  /**
+   * Publish an event, returning the transaction ID of its first chunk
+   */
+  async publish(event: DashboardEvent): Promise<string | undefined> {
+    const message = JSON.stringify({
+      version: DASHBOARD_EVENT_VERSION,
+      ...event,
+      agentAccountId: this.context.agentAccountId,
+      contractId: this.context.contractId,
+      timestamp: new Date().toISOString()
+    });
+
+    try {
+      const responses = await new TopicMessageSubmitTransaction()
+        .setTopicId(this.topicId)
+        .setMaxChunks(this.maxChunks)
+        .setMessage(message)
+        .executeAll(this.client);
+      await responses[responses.length - 1].getReceipt(this.client);
+
+      const transactionId = responses[0].transactionId.toString();
+      logger.info(`📡 Dashboard event ${event.type} published (${responses.length} chunk(s), ${transactionId})`);
+      return transactionId;
+
+    } catch (error) {
+      logger.error(`❌ Failed to publish dashboard event ${event.type}`, { error });
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { Client, ContractExecuteTransaction, ContractFunctionParameters, ContractId, Hbar } from '@hashgraph/sdk';
+import { getMirrorNodeRestUrl } from './hedera-client.js';
+import { TokenAmount } from './token-amount.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger('gas');
+
+// A hung mirror node must not hold the rebalance lock
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Gas and fee limits for contract calls
+ */
+export interface GasPolicy {
+  marginPercent: number; // added on top of the simulated gas
+  fallbackGas: number; // used when the simulation is unavailable
+  maxGas: number; // never exceeded; a call simulated above it is refused
+  maxFee: TokenAmount; // HBAR, maximum transaction fee of a contract execution
+  estimateUrl: string; // mirror node (or a stand-in) serving POST /api/v1/contracts/call
+}
+
+/**
+ * Gas limit chosen for one call
+ * - simulated: from the contracts/call estimate plus the margin (capped at the ceiling)
+ * - fallback:  the simulation was unavailable (network error, timeout, any answer other than a
+ *              revert), so CONTRACT_GAS_FALLBACK is used
+ */
+export interface GasEstimate {
+  gas: number;
+  simulatedGas?: number;
+  source: 'simulated' | 'fallback';
+}
+
+interface ContractCallError {
+  _status?: { messages?: Array<{ message?: string; detail?: string }> };
+}
+
+/**
+ * Gas of read-only contract queries such as getCurrentRatios: CONTRACT_QUERY_GAS (default 100000).
+ * Queries are not simulated first, since the simulation would cost as much as the query itself.
+ */
+export function queryGasFromEnvironment(env: NodeJS.ProcessEnv = process.env): number {
+  const gas = parseInt(env.CONTRACT_QUERY_GAS || '100000');
+  if (!(gas > 0)) {
+    throw new Error(`CONTRACT_QUERY_GAS must be a positive number, got "${env.CONTRACT_QUERY_GAS}"`);
+  }
+  return gas;
+}
+
+/**
+ * Gas Estimator
+ * Sizes the gas of contract calls with the mirror node contracts/call simulation
+ * (estimate: true) instead of a fixed limit: the simulated gas plus a safety margin, capped at
+ * CONTRACT_GAS_MAX. If the simulation is unavailable the fallback limit is used; a call the
+ * simulation reverts is not submitted, since it would only burn the fee.
+ */
+export class GasEstimator {
+  constructor(
+    private readonly client: Client,
+    private readonly policy: GasPolicy = GasEstimator.configFromEnvironment()
+  ) {}
+
+  /**
+   * Read CONTRACT_GAS_MARGIN_PERCENT (default 20), CONTRACT_GAS_FALLBACK (default 300000),
+   * CONTRACT_GAS_MAX (default 1000000), CONTRACT_MAX_FEE_HBAR (default 2) and
+   * CONTRACT_GAS_ESTIMATE_URL (default: the mirror node)
+   */
+  static configFromEnvironment(env: NodeJS.ProcessEnv = process.env): GasPolicy {
+    const policy = {
+      marginPercent: parseInt(env.CONTRACT_GAS_MARGIN_PERCENT || '20'),
+      fallbackGas: parseInt(env.CONTRACT_GAS_FALLBACK || '300000'),
+      maxGas: parseInt(env.CONTRACT_GAS_MAX || '1000000'),
+      maxFee: TokenAmount.fromHuman(env.CONTRACT_MAX_FEE_HBAR || '2', 8),
+      estimateUrl: (env.CONTRACT_GAS_ESTIMATE_URL || getMirrorNodeRestUrl(env)).replace(/\/+$/, '')
+    };
+    if (!(policy.marginPercent >= 0)) {
+      throw new Error(`CONTRACT_GAS_MARGIN_PERCENT must be a non-negative number, got "${env.CONTRACT_GAS_MARGIN_PERCENT}"`);
+    }
+    if (!(policy.fallbackGas > 0) || !(policy.maxGas >= policy.fallbackGas)) {
+      throw new Error('CONTRACT_GAS_FALLBACK and CONTRACT_GAS_MAX must be positive, with the maximum not below the fallback');
+    }
+    if (policy.maxFee.raw <= 0n) {
+      throw new Error(`CONTRACT_MAX_FEE_HBAR must be positive, got "${env.CONTRACT_MAX_FEE_HBAR}"`);
+    }
+    return policy;
+  }
+
+  /**
+   * Maximum transaction fee of a contract execution
+   */
+  get maxTransactionFee(): Hbar {
+    return Hbar.fromTinybars(this.policy.maxFee.raw.toString());
+  }
+
+  /**
+   * Gas limit for calling functionName on the contract as the operator. Throws if the simulation
+   * rejects the call or the simulated gas alone exceeds the ceiling, so such a call is never
+   * submitted.
+   */
+  async estimate(contractId: string, functionName: string, parameters?: ContractFunctionParameters): Promise<GasEstimate> {
+    let simulation: { gas: number } | { rejected: string };
+    try {
+      simulation = await this.simulate(contractId, functionName, parameters);
+    } catch (error) {
+      logger.warn(`⚠️  Gas estimation for ${functionName} failed - using the fallback of ${this.policy.fallbackGas} gas`, { error: error instanceof Error ? error.message : String(error) });
+      return { gas: this.policy.fallbackGas, source: 'fallback' };
+    }
+
+    if ('rejected' in simulation) {
+      throw new Error(`${functionName} would fail: simulation ${simulation.rejected}`);
+    }
+    const simulatedGas = simulation.gas;
+
+    if (simulatedGas > this.policy.maxGas) {
+      throw new Error(`${functionName} needs about ${simulatedGas} gas, more than CONTRACT_GAS_MAX (${this.policy.maxGas})`);
+    }
+    const gas = Math.min(Math.ceil(simulatedGas * (1 + this.policy.marginPercent / 100)), this.policy.maxGas);
+    logger.debug(`⛽ ${functionName}: simulated ${simulatedGas} gas, limit ${gas}`);
+    return { gas, simulatedGas, source: 'simulated' };
+  }
+
+  /**
+   * POST /api/v1/contracts/call with estimate: true; the result is the gas as a hex quantity.
+   * Only a 400 carrying a CONTRACT_REVERT* status is the simulation rejecting the call; network
+   * errors, timeouts and every other error answer (rate limits, unsupported requests, 5xx) throw.
+   */
+  private async simulate(contractId: string, functionName: string, parameters?: ContractFunctionParameters): Promise<{ gas: number } | { rejected: string }> {
+    const data = new ContractExecuteTransaction().setFunction(functionName, parameters).functionParameters!;
+    const operator = this.client.operatorAccountId;
+
+    const response = await fetch(`${this.policy.estimateUrl}/api/v1/contracts/call`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        block: 'latest',
+        data: `0x${Buffer.from(data).toString('hex')}`,
+        estimate: true,
+        from: operator ? `0x${operator.toSolidityAddress()}` : undefined,
+        to: `0x${ContractId.fromString(contractId).toSolidityAddress()}`
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      // A revert comes back as 400 with the status in _status.messages
+      const body = await response.json().catch(() => ({})) as ContractCallError;
+      const messages = body._status?.messages ?? [];
+      const revert = messages.find(entry => entry.message?.startsWith('CONTRACT_REVERT'));
+      const message = revert ?? messages[0];
+      const description = `contracts/call returned ${response.status}${message ? `: ${message.message}${message.detail ? ` (${message.detail})` : ''}` : ''}`;
+      if (response.status === 400 && revert) {
+        return { rejected: description };
+      }
+      throw new Error(description);
+    }
+
+    const { result } = await response.json() as { result: string };
+    const gas = parseInt(result, 16);
+    if (!(gas > 0)) {
+      throw new Error(`contracts/call returned an invalid estimate "${result}"`);
+    }
+    return { gas };
+  }
+}
@@ -0,0 +1,118 @@
+import { Client, AccountId } from '@hashgraph/sdk';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export type HederaNetworkName = 'mainnet' | 'testnet' | 'previewnet' | 'local' | 'custom';
+
+/**
+ * Default mirror node REST endpoints per network
+ */
+const MIRROR_REST_URLS: Record<Exclude<HederaNetworkName, 'custom'>, string> = {
+  mainnet: 'https://mainnet-public.mirrornode.hedera.com',
+  testnet: 'https://testnet.mirrornode.hedera.com',
+  previewnet: 'https://previewnet.mirrornode.hedera.com',
+  local: 'http://localhost:5551'
+};
+
+/**
+ * Default mirror node gRPC addresses per network (TopicMessageQuery)
+ */
+const MIRROR_GRPC_ADDRESSES: Record<Exclude<HederaNetworkName, 'custom'>, string> = {
+  mainnet: 'mainnet-public.mirrornode.hedera.com:443',
+  testnet: 'testnet.mirrornode.hedera.com:443',
+  previewnet: 'previewnet.mirrornode.hedera.com:443',
+  local: '127.0.0.1:5600'
+};
+
+/**
+ * Resolve HEDERA_NETWORK (defaults to testnet; "local-node" is accepted for local)
+ */
+export function getHederaNetwork(env: NodeJS.ProcessEnv = process.env): HederaNetworkName {
+  const network = (env.HEDERA_NETWORK || 'testnet').trim().toLowerCase();
+
+  switch (network) {
+    case 'mainnet':
+    case 'testnet':
+    case 'previewnet':
+    case 'custom':
+      return network;
+    case 'local':
+    case 'local-node':
+      return 'local';
+    default:
+      throw new Error(`Unsupported HEDERA_NETWORK "${env.HEDERA_NETWORK}". Use mainnet, testnet, previewnet, local or custom`);
+  }
+}
+
+/**
+ * Mirror node REST base URL: HEDERA_MIRROR_NODE_URL or the network default
+ */
+export function getMirrorNodeRestUrl(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.HEDERA_MIRROR_NODE_URL) {
+    return env.HEDERA_MIRROR_NODE_URL.replace(/\/+$/, '');
+  }
+
+  const network = getHederaNetwork(env);
+  if (network === 'custom') {
+    throw new Error('HEDERA_MIRROR_NODE_URL is required when HEDERA_NETWORK=custom');
+  }
+  return MIRROR_REST_URLS[network];
+}
+
+/**
+ * Mirror node gRPC address ("host:port") used by TopicMessageQuery.
+ * HEDERA_MIRROR_GRPC_URL wins; otherwise it is derived from HEDERA_MIRROR_NODE_URL
+ * or taken from the network defaults.
+ */
+function getMirrorGrpcAddress(env: NodeJS.ProcessEnv, network: HederaNetworkName): string {
+  if (env.HEDERA_MIRROR_GRPC_URL) {
+    return env.HEDERA_MIRROR_GRPC_URL;
+  }
+  if (env.HEDERA_MIRROR_NODE_URL) {
+    const url = new URL(env.HEDERA_MIRROR_NODE_URL);
+    return `${url.hostname}:${url.protocol === 'https:' ? 443 : 5600}`;
+  }
+  if (network === 'custom') {
+    throw new Error('HEDERA_MIRROR_NODE_URL or HEDERA_MIRROR_GRPC_URL is required when HEDERA_NETWORK=custom');
+  }
+  return MIRROR_GRPC_ADDRESSES[network];
+}
+
+/**
+ * Create a Hedera client for the configured network.
+ *
+ * - HEDERA_NETWORK: mainnet, testnet (default), previewnet, local or custom
+ * - HEDERA_CONSENSUS_NODE_URL: "host:port" of a consensus node, replacing the network's node list
+ *   (node account from HEDERA_CONSENSUS_NODE_ACCOUNT_ID, default 0.0.3); required for custom
+ * - HEDERA_MIRROR_NODE_URL / HEDERA_MIRROR_GRPC_URL: mirror node overrides
+ *
+ * The operator is set from HEDERA_ACCOUNT_ID / HEDERA_PRIVATE_KEY when both are available.
+ */
+export function createHederaClient(env: NodeJS.ProcessEnv = process.env): Client {
+  const network = getHederaNetwork(env);
+  let client: Client;
+
+  if (env.HEDERA_CONSENSUS_NODE_URL) {
+    const nodeAccountId = AccountId.fromString(env.HEDERA_CONSENSUS_NODE_ACCOUNT_ID || '0.0.3');
+    client = Client.forNetwork({ [env.HEDERA_CONSENSUS_NODE_URL]: nodeAccountId });
+  } else if (network === 'custom') {
+    throw new Error('HEDERA_CONSENSUS_NODE_URL is required when HEDERA_NETWORK=custom');
+  } else if (network === 'local') {
+    client = Client.forLocalNode();
+  } else {
+    client = Client.forName(network);
+  }
+
+  client.setMirrorNetwork(getMirrorGrpcAddress(env, network));
+
+  // Set operator if credentials are available
+  const accountId = env.HEDERA_ACCOUNT_ID;
+  const privateKey = env.HEDERA_PRIVATE_KEY;
+  if (accountId && privateKey) {
+    client.setOperator(accountId, privateKey);
+  }
+
+  return client;
+}
@@ -0,0 +1,197 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { format as formatArgs } from 'util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+
+/**
+ * Structured context attached to a log line (errors are serialized with name, message and stack)
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Process-wide logger settings
+ */
+export interface LoggerConfig {
+  level: LogLevel;
+  format: LogFormat;
+  noiseFilters: Array<string | RegExp>; // lines matching any filter are dropped
+  stderrOnly: boolean; // keep stdout free, e.g. for JSON written by a CLI
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Dependency chatter dropped unless LOG_NOISE_FILTERS overrides it: Zod deprecation warnings,
+ * HCS-10 connection parsing errors and verbose HCS-11 profile lookups from the agent kits.
+ */
+export const DEFAULT_NOISE_FILTERS: Array<string | RegExp> = [
+  /Zod field.*\.optional\(\)/,
+  'Invalid connection topic ID format',
+  'ModelCapabilityDetector: Loaded',
+  'Failed to send message to connection',
+  'Fetching profile for account',
+  'Getting account memo',
+  'Got account memo',
+  'Found HCS-11 memo',
+  'Retrieving profile from Kiloscribe CDN',
+  'Checking messages for connection',
+  'Message submitted successfully',
+  'Submitted connection request'
+];
+
+/**
+ * Read LOG_LEVEL (debug|info|warn|error, default info), LOG_FORMAT (pretty|json, default
+ * pretty) and LOG_NOISE_FILTERS (comma-separated substrings or /regex/; replaces the defaults,
+ * "none" disables filtering).
+ */
+export function loggerConfigFromEnvironment(env: NodeJS.ProcessEnv = process.env): LoggerConfig {
+  const level = (env.LOG_LEVEL || 'info').trim().toLowerCase() as LogLevel;
+  if (!(level in LEVELS)) {
+    throw new Error(`LOG_LEVEL must be one of ${Object.keys(LEVELS).join(', ')}, got "${env.LOG_LEVEL}"`);
+  }
+
+  const format = (env.LOG_FORMAT || 'pretty').trim().toLowerCase() as LogFormat;
+  if (format !== 'pretty' && format !== 'json') {
+    throw new Error(`LOG_FORMAT must be "pretty" or "json", got "${env.LOG_FORMAT}"`);
+  }
+
+  let noiseFilters = DEFAULT_NOISE_FILTERS;
+  if (env.LOG_NOISE_FILTERS !== undefined && env.LOG_NOISE_FILTERS.trim() !== '') {
+    noiseFilters = env.LOG_NOISE_FILTERS.trim().toLowerCase() === 'none'
+      ? []
+      : env.LOG_NOISE_FILTERS.split(',').map(filter => filter.trim()).filter(Boolean).map(filter => {
+        const regex = /^\/(.+)\/([a-z]*)$/.exec(filter);
+        return regex ? new RegExp(regex[1], regex[2]) : filter;
+      });
+  }
+
+  return { level, format, noiseFilters, stderrOnly: false };
+}
+
+let loggerConfig: LoggerConfig | undefined;
+
+// Read lazily so dotenv has loaded .env before the first line is logged
+function currentConfig(): LoggerConfig {
+  loggerConfig ??= loggerConfigFromEnvironment();
+  return loggerConfig;
+}
+
+/**
+ * Override logger settings for this process (e.g. stderrOnly for `npm run plan -- --json`)
+ */
+export function configureLogger(overrides: Partial<LoggerConfig>): void {
+  loggerConfig = { ...currentConfig(), ...overrides };
+}
+
+const runContext = new AsyncLocalStorage<{ runId: string }>();
+
+/**
+ * Run a function with a rebalance run ID that every log line inside it carries
+ */
+export function withRunContext<T>(runId: string, fn: () => T): T {
+  return runContext.run({ runId }, fn);
+}
+
+/**
+ * Run ID of the rebalance run the caller is part of, if any
+ */
+export function currentRunId(): string | undefined {
+  return runContext.getStore()?.runId;
+}
+
+/**
+ * Logger
+ * Component-tagged logger with levels. In pretty mode lines read like the agent's console
+ * output, prefixed with time, level, component and the short run ID; in json mode every line
+ * is one JSON object (time, level, component, runId, message and fields) for log shippers.
+ * Debug and info go to stdout, warnings and errors to stderr.
+ */
+export class Logger {
+  constructor(readonly component: string) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    const config = currentConfig();
+    if (LEVELS[level] < LEVELS[config.level] || isNoise(message, config.noiseFilters)) {
+      return;
+    }
+
+    const time = new Date().toISOString();
+    const runId = currentRunId();
+    let line: string;
+
+    if (config.format === 'json') {
+      const serialized = Object.fromEntries(Object.entries(fields ?? {}).map(([key, value]) => [key, serializeValue(value)]));
+      line = JSON.stringify({ time, level, component: this.component, ...(runId ? { runId } : {}), message, ...serialized });
+    } else {
+      const prefix = `${time.slice(11, 23)} ${level.toUpperCase().padEnd(5)} [${this.component}${runId ? ` ${runId.slice(0, 8)}` : ''}]`;
+      line = `${prefix} ${message}${formatPrettyFields(fields)}`;
+    }
+
+    const stream = config.stderrOnly || LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+  }
+}
+
+/**
+ * Send console.debug/info/warn/error from dependencies (agent kits, LangChain) through a
+ * 'dependency' logger, so they get levels, the output format and the noise filters.
+ * console.log is left alone for CLI output.
+ */
+export function routeConsoleToLogger(): void {
+  const logger = new Logger('dependency');
+  console.debug = (...args: unknown[]) => logger.debug(formatArgs(...args));
+  console.info = (...args: unknown[]) => logger.info(formatArgs(...args));
+  console.warn = (...args: unknown[]) => logger.warn(formatArgs(...args));
+  console.error = (...args: unknown[]) => logger.error(formatArgs(...args));
+}
+
+function isNoise(message: string, filters: Array<string | RegExp>): boolean {
+  return filters.some(filter => (typeof filter === 'string' ? message.includes(filter) : filter.test(message)));
+}
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && value.toString !== Object.prototype.toString) {
+    // Class instances such as TokenAmount and SDK IDs print usefully with toString()
+    return value.toString();
+  }
+  return value;
+}
+
+function formatPrettyFields(fields?: LogFields): string {
+  if (!fields) return '';
+
+  let stack = '';
+  const pairs = Object.entries(fields).filter(([, value]) => value !== undefined).map(([key, value]) => {
+    if (value instanceof Error) {
+      stack = value.stack ? `\n${value.stack}` : '';
+      return `${key}=${JSON.stringify(value.message)}`;
+    }
+    const serialized = serializeValue(value);
+    return `${key}=${typeof serialized === 'string' ? serialized : JSON.stringify(serialized)}`;
+  });
+
+  return (pairs.length > 0 ? ` ${pairs.join(' ')}` : '') + stack;
+}
@@ -0,0 +1,70 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A submitted treasury transaction counted against the risk limits
+ */
+export interface RiskLedgerEntry {
+  timestamp: string;
+  tokenSymbol: string;
+  action: 'withdraw' | 'deposit';
+  amount: string; // human-readable
+  notional: number | null; // amount x reference price, null when no price is configured; 0 when nothing moved
+  outcome?: 'succeeded' | 'failed' | 'ambiguous'; // absent in entries written before outcomes were recorded
+}
+
+/**
+ * Risk Ledger
+ * Rolling 24-hour record of submitted treasury transactions, persisted as JSON
+ * (RISK_LEDGER_FILE, default .balancer/risk-ledger.json) so the hourly transaction limit
+ * and the daily notional cap hold across restarts.
+ */
+export class RiskLedger {
+  private entries: RiskLedgerEntry[] = [];
+
+  constructor(private readonly path: string = process.env.RISK_LEDGER_FILE || '.balancer/risk-ledger.json') {
+    if (existsSync(this.path)) {
+      this.entries = (JSON.parse(readFileSync(this.path, 'utf8')) as { entries: RiskLedgerEntry[] }).entries;
+      this.prune();
+    }
+  }
+
+  /**
+   * Record a transaction and write the ledger atomically (temp file + rename)
+   */
+  record(entry: Omit<RiskLedgerEntry, 'timestamp'>): void {
+    this.entries.push({ timestamp: new Date().toISOString(), ...entry });
+    this.prune();
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify({ entries: this.entries }, null, 2));
+    renameSync(tempPath, this.path);
+  }
+
+  /**
+   * Number of submitted transactions within the last windowMs milliseconds
+   */
+  countSince(windowMs: number): number {
+    return this.within(windowMs).length;
+  }
+
+  /**
+   * Total notional value moved (or possibly moved) within the last windowMs milliseconds
+   */
+  notionalSince(windowMs: number): number {
+    return this.within(windowMs).reduce((total, entry) => total + (entry.notional ?? 0), 0);
+  }
+
+  private within(windowMs: number): RiskLedgerEntry[] {
+    const since = Date.now() - windowMs;
+    return this.entries.filter(entry => Date.parse(entry.timestamp) >= since);
+  }
+
+  // Nothing older than a day is needed for any limit
+  private prune(): void {
+    this.entries = this.within(DAY_MS);
+  }
+}
@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+
+import { config } from 'dotenv';
+import { writeFileSync } from 'fs';
+import { RunHistoryStore, RunOutcome, RunQuery, RunRecord } from './run-history.js';
+
+// Load environment variables
+config();
+
+const OUTCOMES: RunOutcome[] = ['no_action', 'completed', 'failed', 'aborted', 'not_approved', 'interrupted'];
+
+/**
+ * Parse --limit, --outcome, --token and --since
+ */
+function parseQuery(args: string[]): RunQuery {
+  const query: RunQuery = {};
+
+  for (let i = 0; i < args.length; i += 2) {
+    const value = args[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${args[i]}`);
+    }
+
+    switch (args[i]) {
+      case '--limit':
+        query.limit = parseInt(value);
+        if (!Number.isInteger(query.limit) || query.limit < 1) throw new Error(`Invalid --limit: ${value}`);
+        break;
+      case '--outcome':
+        if (!OUTCOMES.includes(value as RunOutcome)) throw new Error(`--outcome must be one of ${OUTCOMES.join(', ')}`);
+        query.outcome = value as RunOutcome;
+        break;
+      case '--token':
+        query.token = value;
+        break;
+      case '--since':
+        query.since = new Date(value);
+        if (isNaN(query.since.getTime())) throw new Error(`Invalid --since date: ${value}`);
+        break;
+      default:
+        throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  return query;
+}
+
+/**
+ * One line per run, newest first
+ */
+function listRuns(store: RunHistoryStore, query: RunQuery): void {
+  const records = store.list({ limit: 20, ...query });
+  if (records.length === 0) {
+    console.log(`📭 No runs in ${store.path}`);
+    return;
+  }
+
+  for (const record of records) {
+    const steps = record.adjustments.map(adjustment => `${adjustment.action} ${adjustment.amount} ${adjustment.tokenSymbol}${adjustment.success ? '' : ' ✗'}`);
+    console.log(`${record.runId}  ${record.startedAt}  ${record.outcome.padEnd(12)} ${record.trigger.padEnd(16)} ${steps.join(', ') || '-'}`);
+  }
+}
+
+/**
+ * Full detail of one run
+ */
+function showRun(record: RunRecord): void {
+  console.log(`🗂️  Run ${record.runId} (${record.outcome})`);
+  console.log(`   Trigger: ${record.trigger}, mode: ${record.executionMode}`);
+  console.log(`   Agent: ${record.agentAccountId}, contract: ${record.contractId}`);
+  console.log(`   ${record.startedAt} → ${record.completedAt} (${record.durationMs}ms), fees: ${record.totalFee} HBAR${record.totalGasUsed ? `, gas used: ${record.totalGasUsed}` : ''}`);
+  if (record.error) console.log(`   Error: ${record.error}`);
+
+  if (record.before) {
+    console.log(`   Before: LYNX supply ${record.before.lynxTotalSupply}; ${record.before.assets.map(asset => `${asset.symbol}=${asset.balance}`).join(', ')}`);
+  }
+  if (record.after) {
+    console.log(`   After:  LYNX supply ${record.after.lynxTotalSupply}; ${record.after.assets.map(asset => `${asset.symbol}=${asset.balance}`).join(', ')}`);
+  }
+
+  console.log('\n📊 Analysis:');
+  for (const token of record.analysis) {
+    console.log(`   ${token.tokenSymbol.padEnd(8)} ${token.balanceStatus.padEnd(8)} current ${token.currentBalance}, required ${token.requiredBalance} (${token.diffPercent.toFixed(2)}%)`);
+  }
+
+  if (record.plannedSteps.length > 0) {
+    console.log('\n🧭 Planned steps:');
+    for (const step of record.plannedSteps) {
+      console.log(`   - ${step.action} ${step.amount} ${step.tokenSymbol} (${step.contractFunction})`);
+    }
+  }
+  if (record.risk && record.risk.violations.length > 0) {
+    console.log(`\n🛡️  Risk policy: ${record.risk.decision}`);
+    record.risk.violations.forEach(violation => console.log(`   - ${violation.message}`));
+  }
+  if (record.approval) {
+    console.log(`\n✍️  Approval: ${record.approval.status} (plan ${record.approval.planHash})${record.approval.approvers.length ? ` by ${record.approval.approvers.join(', ')}` : ''}`);
+    if (record.approval.reason) console.log(`   ${record.approval.reason}`);
+  }
+
+  if (record.adjustments.length > 0) {
+    console.log('\n🔧 Adjustments:');
+    for (const adjustment of record.adjustments) {
+      console.log(`   ${adjustment.success ? '✅' : '❌'} ${adjustment.action} ${adjustment.amount} ${adjustment.tokenSymbol} via ${adjustment.contractFunction} - ${adjustment.status ?? adjustment.verification ?? '-'}, ${adjustment.attempts} attempt(s)`);
+      for (const receipt of adjustment.receipts ?? []) {
+        console.log(`      ${receipt.transactionId ?? receipt.scheduleId ?? '-'}: ${receipt.status ?? '-'}${receipt.fee ? `, fee ${receipt.fee} HBAR` : ''}${receipt.gasUsed ? `, gas ${receipt.gasUsed} of ${receipt.gasLimit ?? '?'}` : ''}${receipt.error ? `, ${receipt.error}` : ''}`);
+      }
+      if (adjustment.error) console.log(`      Error: ${adjustment.error}${adjustment.failure ? ` (${adjustment.failure})` : ''}`);
+    }
+  }
+}
+
+/**
+ * Main function
+ */
+function main(): void {
+  const args = process.argv.slice(2);
+  const command = (args[0] || '').toLowerCase();
+  const store = new RunHistoryStore();
+
+  if (!['list', 'show', 'export'].includes(command) || (command === 'show' && !args[1])) {
+    console.log('🦌⚡ Run History');
+    console.log('===============');
+    console.log('📋 Available commands:');
+    console.log('  list [--limit N] [--outcome X] [--token SYM] [--since ISO]  - Recent runs, newest first');
+    console.log('  show <runId>                                                - Full record of one run (ID prefix allowed)');
+    console.log('  export [file] [--outcome X] [--token SYM] [--since ISO]     - CSV, one row per adjustment');
+    console.log(`\n💡 Reading ${store.path} (RUN_HISTORY_FILE)`);
+    return;
+  }
+
+  try {
+    if (command === 'list') {
+      listRuns(store, parseQuery(args.slice(1)));
+    } else if (command === 'show') {
+      const record = store.get(args[1]);
+      if (!record) throw new Error(`No run ${args[1]} in ${store.path}`);
+      showRun(record);
+    } else {
+      const file = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+      // Oldest first, the natural order for spreadsheets
+      const csv = RunHistoryStore.toCsv(store.list(parseQuery(args.slice(file ? 2 : 1))).reverse());
+      if (file) {
+        writeFileSync(file, csv);
+        console.log(`✅ Exported to ${file}`);
+      } else {
+        process.stdout.write(csv);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
@@ -0,0 +1,246 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import { RebalancePlan } from '../agent/rebalance-planner.js';
+import { RiskViolation } from '../agent/risk-policy.js';
+import { ContractStateSnapshot, TokenAdjustment } from './dashboard-publisher.js';
+import { TokenAmount } from './token-amount.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger('history');
+
+/**
+ * Version of the run record format
+ */
+export const RUN_HISTORY_VERSION = 1;
+
+/**
+ * How a run ended
+ * - no_action:    every token was within tolerance
+ * - completed:    every adjustment was verified
+ * - failed:       an adjustment or the run itself failed
+ * - aborted:      the risk policy stopped the run
+ * - not_approved: approval was rejected or expired, or the state changed while waiting
+ * - interrupted:  a shutdown stopped the run before all planned steps were executed, or while
+ *                 the plan awaited approval
+ */
+export type RunOutcome = 'no_action' | 'completed' | 'failed' | 'aborted' | 'not_approved' | 'interrupted';
+
+/**
+ * Ratio analysis of one token at the start of a run
+ */
+export interface TokenAnalysisRecord {
+  tokenSymbol: string;
+  targetRatio: number;
+  currentBalance: string;
+  requiredBalance: string;
+  diffPercent: number;
+  balanceStatus: 'BALANCED' | 'EXCESS' | 'DEFICIT';
+}
+
+/**
+ * A step as planned, before pre-flight, risk limits or retries changed it
+ */
+export interface PlannedStepRecord {
+  tokenSymbol: string;
+  tokenId: string;
+  action: 'withdraw' | 'deposit';
+  amount: string;
+  amountSmallestUnits: string;
+  contractFunction: string;
+  expectedBalance: string;
+}
+
+/**
+ * Everything known about one rebalancing run
+ */
+export interface RunRecord {
+  version: typeof RUN_HISTORY_VERSION;
+  runId: string;
+  trigger: string;
+  resumedRunId?: string; // run left unfinished in the step journal that this run completes
+  agentAccountId: string;
+  contractId: string;
+  executionMode: string;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  outcome: RunOutcome;
+  error?: string;
+  before?: ContractStateSnapshot;
+  after?: ContractStateSnapshot;
+  analysis: TokenAnalysisRecord[];
+  plannedSteps: PlannedStepRecord[];
+  risk?: { decision: 'allow' | 'scale' | 'abort'; violations: RiskViolation[] };
+  approval?: { planHash: string; status: 'approved' | 'rejected' | 'expired' | 'cancelled'; approvers: string[]; reason?: string };
+  adjustments: TokenAdjustment[];
+  totalFee: string; // HBAR, sum of all receipts
+  totalGasUsed?: string; // sum of the gas used by the contract calls of all receipts
+}
+
+/**
+ * Filters for listing runs
+ */
+export interface RunQuery {
+  limit?: number;
+  outcome?: RunOutcome;
+  since?: Date;
+  token?: string; // runs that planned or executed a step for this token
+}
+
+/**
+ * Per-token analysis and planned steps of a plan, in record form
+ */
+export function describePlan(plan: RebalancePlan): Pick<RunRecord, 'analysis' | 'plannedSteps'> {
+  return {
+    analysis: plan.tokens.map(entry => ({
+      tokenSymbol: entry.tokenSymbol,
+      targetRatio: entry.targetRatio,
+      currentBalance: entry.currentBalance.toHuman(),
+      requiredBalance: entry.requiredBalance.toHuman(),
+      diffPercent: entry.diffPercent,
+      balanceStatus: entry.balanceStatus
+    })),
+    plannedSteps: plan.steps.map(step => ({
+      tokenSymbol: step.tokenSymbol,
+      tokenId: step.tokenId,
+      action: step.action,
+      amount: step.amount.toHuman(),
+      amountSmallestUnits: step.amountSmallestUnits,
+      contractFunction: step.contractFunction,
+      expectedBalance: step.expectedBalance.toHuman()
+    }))
+  };
+}
+
+/**
+ * Total HBAR fee of all receipts of a run's adjustments
+ */
+export function totalFee(adjustments: TokenAdjustment[]): string {
+  return adjustments
+    .flatMap(adjustment => adjustment.receipts ?? [])
+    .reduce((total, receipt) => (receipt.fee ? total.add(TokenAmount.fromHuman(receipt.fee, 8)) : total), TokenAmount.zero(8))
+    .toHuman();
+}
+
+/**
+ * Total gas used by the contract calls of a run's adjustments
+ */
+export function totalGasUsed(adjustments: TokenAdjustment[]): string {
+  return adjustments
+    .flatMap(adjustment => adjustment.receipts ?? [])
+    .reduce((total, receipt) => (receipt.gasUsed ? total + BigInt(receipt.gasUsed) : total), 0n)
+    .toString();
+}
+
+/**
+ * Run History Store
+ * Append-only JSONL audit log of rebalancing runs (RUN_HISTORY_FILE, default
+ * .balancer/run-history.jsonl). One line per run, written when the run ends, so the file
+ * can be shipped or tailed as is; list/get/toCsv back the `npm run history` CLI.
+ */
+export class RunHistoryStore {
+  constructor(readonly path: string = process.env.RUN_HISTORY_FILE || '.balancer/run-history.jsonl') {}
+
+  append(record: RunRecord): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, `${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Runs matching the query, newest first
+   */
+  list(query: RunQuery = {}): RunRecord[] {
+    let records = this.readAll().reverse();
+
+    if (query.outcome) {
+      records = records.filter(record => record.outcome === query.outcome);
+    }
+    if (query.since) {
+      const since = query.since.getTime();
+      records = records.filter(record => Date.parse(record.startedAt) >= since);
+    }
+    if (query.token) {
+      const token = query.token.toUpperCase();
+      records = records.filter(record =>
+        record.plannedSteps.some(step => step.tokenSymbol === token) ||
+        record.adjustments.some(adjustment => adjustment.tokenSymbol === token)
+      );
+    }
+
+    return query.limit !== undefined ? records.slice(0, query.limit) : records;
+  }
+
+  /**
+   * A run by its ID or a unique ID prefix
+   */
+  get(runId: string): RunRecord | undefined {
+    const matches = this.readAll().filter(record => record.runId.startsWith(runId));
+    if (matches.length > 1) {
+      throw new Error(`Run ID prefix "${runId}" matches ${matches.length} runs`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * CSV export with one row per adjustment (runs without adjustments get a single row)
+   */
+  static toCsv(records: RunRecord[]): string {
+    const header = [
+      'runId', 'startedAt', 'completedAt', 'trigger', 'outcome', 'durationMs', 'runError', 'totalFeeHbar',
+      'token', 'action', 'amount', 'amountSmallestUnits', 'contractFunction', 'success', 'verification',
+      'verifiedBalance', 'status', 'attempts', 'transactionIds', 'feeHbar', 'gasUsed', 'error'
+    ];
+
+    const rows = records.flatMap(record => {
+      const run = [
+        record.runId, record.startedAt, record.completedAt, record.trigger, record.outcome,
+        String(record.durationMs), record.error ?? '', record.totalFee
+      ];
+      if (record.adjustments.length === 0) {
+        return [[...run, ...Array(header.length - run.length).fill('')]];
+      }
+
+      return record.adjustments.map(adjustment => [
+        ...run,
+        adjustment.tokenSymbol,
+        adjustment.action,
+        adjustment.amount,
+        adjustment.amountSmallestUnits,
+        adjustment.contractFunction,
+        String(adjustment.success),
+        adjustment.verification ?? '',
+        adjustment.verifiedBalance ?? '',
+        adjustment.status ?? '',
+        String(adjustment.attempts),
+        adjustment.transactionIds.join(';'),
+        totalFee([adjustment]),
+        totalGasUsed([adjustment]),
+        adjustment.error ?? ''
+      ]);
+    });
+
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  private readAll(): RunRecord[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const records: RunRecord[] = [];
+    readFileSync(this.path, 'utf8').split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line) as RunRecord);
+      } catch {
+        // A crash mid-append can leave a partial last line
+        logger.warn(`⚠️  Skipping malformed run history line ${index + 1} in ${this.path}`);
+      }
+    });
+    return records;
+  }
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
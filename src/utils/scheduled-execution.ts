@@ -0,0 +1,259 @@
+import {
+  Client,
+  PrivateKey,
+  ReceiptStatusError,
+  ScheduleCreateTransaction,
+  ScheduleDeleteTransaction,
+  ScheduleId,
+  ScheduleInfo,
+  ScheduleInfoQuery,
+  Status,
+  StatusError,
+  Timestamp,
+  Transaction,
+  TransactionRecordQuery
+} from '@hashgraph/sdk';
+import { Logger } from './logger.js';
+import { SubmittingTransaction } from './step-journal.js';
+import { freezeForJournal } from './treasury-transactions.js';
+
+const logger = new Logger('schedule');
+
+/**
+ * Options for wrapping treasury transactions in schedules
+ */
+export interface ScheduleOptions {
+  cosignerKeys: PrivateKey[]; // extra keys held by the agent that sign at creation
+  expirySeconds?: number; // network default (30 minutes) when unset
+  waitTimeoutMs: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Final state of a schedule as observed by the agent
+ */
+export interface ScheduleOutcome {
+  scheduleId: string;
+  state: 'EXECUTED' | 'DELETED' | 'EXPIRED' | 'TIMED_OUT';
+  scheduledTransactionId?: string;
+  status?: string; // receipt status of the scheduled transaction once executed
+  feeTinybars?: string;
+  gasUsed?: string; // contract calls only
+}
+
+/**
+ * Announcement of a schedule that is waiting for signatures
+ */
+export interface ScheduleCreated {
+  scheduleId: string;
+  functionName: string;
+  memo: string;
+  expiresAt?: string;
+}
+
+/**
+ * Scheduled Execution
+ * Submits a treasury transaction as a ScheduleCreateTransaction instead of executing it with
+ * the operator key alone. Holders of the other required keys sign it with ScheduleSignTransaction
+ * (npm run sign-schedule); the network executes it once the signature threshold is met. The
+ * schedule is tracked until it executes, is deleted or expires. A schedule still pending when the
+ * wait times out is deleted (the operator is its admin key), so it cannot execute after the agent
+ * has moved on and re-planned.
+ */
+export class ScheduledExecution {
+  private onCreated?: (schedule: ScheduleCreated) => void | Promise<void>;
+
+  constructor(
+    private readonly client: Client,
+    private readonly options: ScheduleOptions
+  ) {}
+
+  /**
+   * Read BALANCER_SIGNING_MODE=scheduled and the SCHEDULE_* variables.
+   * Returns undefined in the default operator signing mode.
+   */
+  static fromEnvironment(client: Client, env: NodeJS.ProcessEnv = process.env): ScheduledExecution | undefined {
+    const mode = (env.BALANCER_SIGNING_MODE || 'operator').trim().toLowerCase();
+    if (mode === 'operator') {
+      return undefined;
+    }
+    if (mode !== 'scheduled') {
+      throw new Error(`BALANCER_SIGNING_MODE must be "operator" or "scheduled", got "${env.BALANCER_SIGNING_MODE}"`);
+    }
+
+    const cosignerKeys = (env.SCHEDULE_COSIGNER_KEYS || '').split(',').map(key => key.trim()).filter(Boolean).map(key => {
+      try {
+        return PrivateKey.fromString(key);
+      } catch {
+        throw new Error('Invalid private key in SCHEDULE_COSIGNER_KEYS');
+      }
+    });
+
+    // A NaN poll interval would query the schedule back to back, and a NaN timeout would never end the wait
+    const expirySeconds = env.SCHEDULE_EXPIRY_SECONDS ? parseInt(env.SCHEDULE_EXPIRY_SECONDS) : undefined;
+    if (expirySeconds !== undefined && !(expirySeconds > 0)) {
+      throw new Error(`SCHEDULE_EXPIRY_SECONDS must be a positive number of seconds, got "${env.SCHEDULE_EXPIRY_SECONDS}"`);
+    }
+    const waitTimeoutMs = parseInt(env.SCHEDULE_WAIT_TIMEOUT_MS || '1800000');
+    if (!(waitTimeoutMs > 0)) {
+      throw new Error(`SCHEDULE_WAIT_TIMEOUT_MS must be a positive number of milliseconds, got "${env.SCHEDULE_WAIT_TIMEOUT_MS}"`);
+    }
+    const pollIntervalMs = parseInt(env.SCHEDULE_POLL_INTERVAL_MS || '10000');
+    if (!(pollIntervalMs > 0)) {
+      throw new Error(`SCHEDULE_POLL_INTERVAL_MS must be a positive number of milliseconds, got "${env.SCHEDULE_POLL_INTERVAL_MS}"`);
+    }
+
+    return new ScheduledExecution(client, { cosignerKeys, expirySeconds, waitTimeoutMs, pollIntervalMs });
+  }
+
+  /**
+   * Register a listener for new schedules (e.g. to tell signers which schedule ID to sign)
+   */
+  onScheduleCreated(listener: (schedule: ScheduleCreated) => void | Promise<void>): void {
+    this.onCreated = listener;
+  }
+
+  /**
+   * Schedule a transaction and wait until it executes, is deleted or expires.
+   * onSubmitting receives the ScheduleCreateTransaction's ID right before it is submitted.
+   */
+  async execute(
+    transaction: Transaction,
+    functionName: string,
+    onSubmitting?: (transaction: SubmittingTransaction) => void
+  ): Promise<ScheduleOutcome> {
+    const memo = `Lynx balancer ${functionName}`;
+    const operatorKey = this.client.operatorPublicKey;
+    if (!operatorKey) {
+      throw new Error('Scheduled execution needs a client operator');
+    }
+
+    const scheduleTx = new ScheduleCreateTransaction()
+      .setScheduledTransaction(transaction)
+      .setScheduleMemo(memo)
+      .setAdminKey(operatorKey);
+    if (this.options.expirySeconds) {
+      scheduleTx.setExpirationTime(Timestamp.fromDate(new Date(Date.now() + this.options.expirySeconds * 1000)));
+    }
+
+    const frozen = freezeForJournal(scheduleTx, this.client);
+    for (const key of this.options.cosignerKeys) {
+      await scheduleTx.sign(key);
+    }
+    onSubmitting?.({ ...frozen, functionName, scheduled: true });
+
+    const response = await scheduleTx.execute(this.client);
+    let scheduleId: ScheduleId | null;
+    try {
+      scheduleId = (await response.getReceipt(this.client)).scheduleId;
+    } catch (error) {
+      // The same transaction is already waiting for signatures: track that schedule instead
+      if (error instanceof ReceiptStatusError && error.status === Status.IdenticalScheduleAlreadyCreated) {
+        scheduleId = error.transactionReceipt.scheduleId;
+        logger.info(`♻️  Identical schedule already exists: ${scheduleId}`);
+      } else {
+        throw error;
+      }
+    }
+    if (!scheduleId) {
+      throw new Error('Schedule creation receipt did not contain a schedule ID');
+    }
+
+    const info = await new ScheduleInfoQuery().setScheduleId(scheduleId).execute(this.client);
+    const expiresAt = info.expirationTime?.toDate().toISOString();
+    logger.info(`🗓️  ${functionName} scheduled as ${scheduleId} (${memo}) - awaiting signatures${expiresAt ? ` until ${expiresAt}` : ''}`);
+    await this.onCreated?.({ scheduleId: scheduleId.toString(), functionName, memo, expiresAt });
+
+    return this.track(scheduleId);
+  }
+
+  /**
+   * Final outcome of a schedule created before a restart. A schedule that is still waiting for
+   * signatures is deleted, since the agent no longer tracks it.
+   */
+  async settle(scheduleId: string): Promise<ScheduleOutcome> {
+    const id = ScheduleId.fromString(scheduleId);
+    const info = await new ScheduleInfoQuery().setScheduleId(id).execute(this.client);
+
+    if (info.executed) {
+      return this.executed(id, info);
+    }
+    if (info.deleted) {
+      return { scheduleId, state: 'DELETED' };
+    }
+    if (info.expirationTime && info.expirationTime.toDate().getTime() <= Date.now()) {
+      return { scheduleId, state: 'EXPIRED' };
+    }
+    return this.cancel(id, 'is still pending from before the restart');
+  }
+
+  /**
+   * Poll the schedule until it reaches a final state or the wait times out
+   */
+  private async track(scheduleId: ScheduleId): Promise<ScheduleOutcome> {
+    const deadline = Date.now() + this.options.waitTimeoutMs;
+
+    for (;;) {
+      const info = await new ScheduleInfoQuery().setScheduleId(scheduleId).execute(this.client);
+
+      if (info.executed) {
+        return this.executed(scheduleId, info);
+      }
+      if (info.deleted) {
+        logger.warn(`🗑️  Schedule ${scheduleId} was deleted`);
+        return { scheduleId: scheduleId.toString(), state: 'DELETED' };
+      }
+      if (info.expirationTime && info.expirationTime.toDate().getTime() <= Date.now()) {
+        logger.warn(`⌛ Schedule ${scheduleId} expired without enough signatures`);
+        return { scheduleId: scheduleId.toString(), state: 'EXPIRED' };
+      }
+      if (Date.now() >= deadline) {
+        return this.cancel(scheduleId, `still pending after ${this.options.waitTimeoutMs}ms`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Delete a schedule the agent stopped waiting for; if it executed in the meantime, report that
+   */
+  private async cancel(scheduleId: ScheduleId, reason: string): Promise<ScheduleOutcome> {
+    logger.warn(`⌛ Schedule ${scheduleId} ${reason} - deleting it`);
+    try {
+      const response = await new ScheduleDeleteTransaction().setScheduleId(scheduleId).execute(this.client);
+      await response.getReceipt(this.client);
+      return { scheduleId: scheduleId.toString(), state: 'TIMED_OUT' };
+    } catch (error) {
+      if (error instanceof StatusError && error.status === Status.ScheduleAlreadyExecuted) {
+        return this.executed(scheduleId, await new ScheduleInfoQuery().setScheduleId(scheduleId).execute(this.client));
+      }
+      if (error instanceof StatusError && error.status === Status.ScheduleAlreadyDeleted) {
+        return { scheduleId: scheduleId.toString(), state: 'DELETED' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Outcome of an executed schedule, with the status, fee and gas used of the scheduled transaction
+   */
+  private async executed(scheduleId: ScheduleId, info: ScheduleInfo): Promise<ScheduleOutcome> {
+    const scheduledTransactionId = info.scheduledTransactionId?.toString();
+    let status: string | undefined;
+    let feeTinybars: string | undefined;
+    let gasUsed: string | undefined;
+    if (info.scheduledTransactionId) {
+      const record = await new TransactionRecordQuery()
+        .setTransactionId(info.scheduledTransactionId)
+        .setValidateReceiptStatus(false)
+        .execute(this.client);
+      status = record.receipt.status.toString();
+      feeTinybars = record.transactionFee.toTinybars().toString();
+      gasUsed = record.contractFunctionResult?.gasUsed.toString();
+    }
+
+    logger.info(`✅ Schedule ${scheduleId} executed (${scheduledTransactionId}, ${status})`);
+    return { scheduleId: scheduleId.toString(), state: 'EXECUTED', scheduledTransactionId, status, feeTinybars, gasUsed };
+  }
+}
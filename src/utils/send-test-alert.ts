@@ -1,45 +1,36 @@
 #!/usr/bin/env node
 
-// Suppress noisy warnings and errors
-import '../suppress-warnings';
-
 import { config } from 'dotenv';
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
-import { Client } from '@hashgraph/sdk';
-import { HederaLangchainToolkit, coreConsensusPlugin } from 'hedera-agent-kit';
+import { Client, PrivateKey, TopicCreateTransaction, TopicMessageSubmitTransaction } from '@hashgraph/sdk';
+import { createHederaClient } from './hedera-client.js';
+import { createAlertMessage, signAlertMessage, AlertMessage } from './alert-protocol.js';
 
 // Load environment variables
 config();
 
-// Simple alert messages - content doesn't matter, only that a message is received
-
 /**
  * Simple Alert Sender
  * 
- * Sends simple test messages to trigger balancer agent rebalancing.
- * Content doesn't matter - any message triggers rebalancing.
+ * Sends structured alert messages (see alert-protocol.ts) to BALANCER_ALERT_TOPIC.
+ * The balancer agent validates every message and rejects anything that does not match the protocol.
  */
 class SimpleAlertSender {
-  private agentExecutor?: AgentExecutor;
   private client?: Client;
   private topicId?: string;
 
   /**
-   * Initialize Hedera Agent Kit for sending topic messages
+   * Initialize the Hedera client for sending topic messages
    */
   async initialize(): Promise<void> {
-    console.log("🔧 Initializing Simple Alert Sender");
-    console.log("===================================");
+    console.log('🔧 Initializing Simple Alert Sender');
+    console.log('===================================');
 
     const env = process.env;
     
     // Validate required environment variables
     const requiredVars = [
       'HEDERA_ACCOUNT_ID',
-      'HEDERA_PRIVATE_KEY', 
-      'AI_GATEWAY_API_KEY'
+      'HEDERA_PRIVATE_KEY'
     ];
     
     const missingVars = requiredVars.filter(varName => !env[varName]);
@@ -48,76 +39,25 @@ class SimpleAlertSender {
     }
 
     try {
-      console.log("🔧 Setting up Hedera Agent Kit for topic messaging...");
-
-      // Initialize Hedera Client
-      this.client = Client.forTestnet();
-      this.client.setOperator(env.HEDERA_ACCOUNT_ID!, env.HEDERA_PRIVATE_KEY!);
-
-      // Initialize Hedera Agent Kit with consensus plugin
-      const hederaAgentToolkit = new HederaLangchainToolkit({
-        client: this.client,
-        configuration: {
-          plugins: [coreConsensusPlugin]
-        }
-      });
-
-      // Initialize OpenAI LLM (same as main agent)
-      const llm = new ChatOpenAI({
-        modelName: "gpt-4o-mini",           // or "gpt-4o", "gpt-3.5-turbo", etc.
-        temperature: 0,                     // 0 = deterministic, 1 = creative
-        configuration: {
-            baseURL: "https://ai-gateway.vercel.sh/v1",  // Vercel AI Gateway
-        },
-        apiKey: env.AI_GATEWAY_API_KEY!,         // Your Vercel AI Gateway key
-      });
-
-      // Create simple prompt for topic messaging
-      const prompt = ChatPromptTemplate.fromMessages([
-        ['system', 'You are a simple alert sender. Use the topic messaging tools to submit messages to HCS topics. Always use the submit-message-to-topic tool when asked to submit a message.'],
-        ['placeholder', '{chat_history}'],
-        ['human', '{input}'],
-        ['placeholder', '{agent_scratchpad}'],
-      ]);
-
-      // Get Hedera tools
-      const hederaTools = hederaAgentToolkit.getTools();
-      
-      // Create the tool-calling agent
-      const agent = await createToolCallingAgent({
-        llm,
-        tools: hederaTools,
-        prompt
-      });
-      
-      // Create the agent executor
-      this.agentExecutor = new AgentExecutor({
-        agent,
-        tools: hederaTools,
-        verbose: false,
-        maxIterations: 10
-      });
+      // Initialize Hedera Client for the configured network
+      this.client = createHederaClient();
 
       // Create topic if BALANCER_ALERT_TOPIC is empty
       let topicId = env.BALANCER_ALERT_TOPIC;
       if (!topicId || topicId.trim() === '') {
-        console.log("🔧 BALANCER_ALERT_TOPIC is empty, creating new topic...");
-        
-        const createTopicResponse = await this.agentExecutor.invoke({
-          input: `Create a new HCS topic for balancer alerts with memo "Lynx DAO Balancer Alerts Topic"`
-        });
+        console.log('🔧 BALANCER_ALERT_TOPIC is empty, creating new topic...');
         
-        console.log("📡 Topic creation response:", createTopicResponse.output);
+        const createTopicResponse = await new TopicCreateTransaction()
+          .setTopicMemo('Lynx DAO Balancer Alerts Topic')
+          .execute(this.client);
+        const receipt = await createTopicResponse.getReceipt(this.client);
         
-        // Extract topic ID from response (you'll need to update your .env file with this)
-        const topicMatch = createTopicResponse.output.match(/0\.0\.\d+/);
-        if (topicMatch) {
-          topicId = topicMatch[0];
-          console.log(`✅ Created new topic: ${topicId}`);
-          console.log(`🔧 Please add this to your .env file: BALANCER_ALERT_TOPIC=${topicId}`);
-        } else {
-          throw new Error("Failed to extract topic ID from creation response");
+        if (!receipt.topicId) {
+          throw new Error('Topic creation receipt did not contain a topic ID');
         }
+        topicId = receipt.topicId.toString();
+        console.log(`✅ Created new topic: ${topicId}`);
+        console.log(`🔧 Please add this to your .env file: BALANCER_ALERT_TOPIC=${topicId}`);
       } else {
         console.log(`📡 Using existing topic: ${topicId}`);
       }
@@ -125,104 +65,130 @@ class SimpleAlertSender {
       // Store topic ID for use in sendAlert
       this.topicId = topicId;
 
-      console.log("✅ Alert sender initialized");
+      console.log('✅ Alert sender initialized');
       console.log(`📋 Operator Account: ${env.HEDERA_ACCOUNT_ID}`);
       console.log(`📡 Alert Topic: ${topicId}`);
-      console.log(`🔧 Available tools:`, hederaTools.map(t => t.name));
 
     } catch (error) {
-      console.error("❌ Failed to initialize alert sender:", error);
+      console.error('❌ Failed to initialize alert sender:', error);
       throw error;
     }
   }
 
   /**
-   * Send a simple test alert to trigger rebalancing
+   * Sign an alert message and submit it to the balancer alert topic.
+   * Uses ALERT_SIGNING_KEY if set, otherwise the operator key.
    */
-  async sendAlert(alertType: string): Promise<void> {
-    if (!this.agentExecutor || !this.topicId) {
-      throw new Error("Agent executor or topic ID not initialized");
+  async sendAlert(unsignedAlert: AlertMessage): Promise<void> {
+    if (!this.client || !this.topicId) {
+      throw new Error('Client or topic ID not initialized');
     }
 
-    // Simple messages - content doesn't matter, only that a message is received
-    const alerts: Record<string, string> = {
-      hbar: "GOVERNANCE UPDATE: HBAR ratio changed - rebalancing required",
-      sauce: "GOVERNANCE UPDATE: SAUCE ratio changed - rebalancing required", 
-      usdc: "GOVERNANCE UPDATE: USDC ratio changed - rebalancing required",
-      test: "TEST ALERT: Triggering rebalancing cycle"
-    };
-
-    const message = alerts[alertType];
-    if (!message) {
-      throw new Error(`Unknown alert type: ${alertType}. Available: ${Object.keys(alerts).join(', ')}`);
-    }
+    const signingKey = PrivateKey.fromString(process.env.ALERT_SIGNING_KEY || process.env.HEDERA_PRIVATE_KEY!);
+    const alert = signAlertMessage(unsignedAlert, signingKey);
+    console.log(`🔏 Signed with public key ${signingKey.publicKey.toStringDer()}`);
 
-    console.log(`🚨 Sending ${alertType.toUpperCase()} alert to topic ${this.topicId}...`);
-    console.log(`📨 Message: "${message}"`);
+    const message = JSON.stringify(alert);
+    console.log(`🚨 Sending ${alert.type} alert to topic ${this.topicId}...`);
+    console.log(`📨 Message: ${message}`);
     
     try {
-      const response = await this.agentExecutor.invoke({
-        input: `Submit the message "${message}" to topic ${this.topicId}`
-      });
+      const response = await new TopicMessageSubmitTransaction()
+        .setTopicId(this.topicId)
+        .setMessage(message)
+        .execute(this.client);
+      const receipt = await response.getReceipt(this.client);
       
-      console.log("✅ Alert sent successfully!");
-      console.log(`📤 Response: ${response.output}`);
+      console.log('✅ Alert sent successfully!');
+      console.log(`📤 Transaction: ${response.transactionId} (sequence ${receipt.topicSequenceNumber})`);
       
     } catch (error) {
-      console.error(`❌ Failed to send ${alertType} alert:`, error);
+      console.error(`❌ Failed to send ${alert.type} alert:`, error);
       throw error;
     }
   }
+
+  close(): void {
+    this.client?.close();
+  }
+}
+
+/**
+ * Parse "SYMBOL=ratio" arguments into a ratio map
+ */
+function parseRatios(args: string[]): Record<string, number> {
+  const ratios: Record<string, number> = {};
+  for (const arg of args) {
+    const match = /^([A-Za-z0-9]+)=(\d+)$/.exec(arg);
+    if (!match) {
+      throw new Error(`Invalid ratio "${arg}" - expected SYMBOL=ratio, e.g. HBAR=50`);
+    }
+    ratios[match[1].toUpperCase()] = parseInt(match[2]);
+  }
+  return ratios;
 }
 
 /**
  * Main function
  */
 async function main(): Promise<void> {
-  console.log("🦌⚡ Simple Alert Sender");
-  console.log("=======================");
+  console.log('🦌⚡ Simple Alert Sender');
+  console.log('=======================');
 
   const args = process.argv.slice(2);
-  const command = args[0] || 'test';
+  const command = (args[0] || 'test').toLowerCase();
+  const sender = process.env.HEDERA_ACCOUNT_ID!;
+  const reason = args.slice(1).join(' ') || undefined;
+
+  let alert: AlertMessage;
+  switch (command) {
+    case 'test':
+    case 'force':
+      alert = createAlertMessage('FORCE_REBALANCE', sender, { reason: reason || 'Manual test alert' });
+      break;
+    case 'ratio':
+      if (!args[1] || args.length < 3) {
+        console.error('❌ Usage: npm run test:alert ratio <proposalId> HBAR=50 SAUCE=30 ...');
+        process.exit(1);
+      }
+      alert = createAlertMessage('RATIO_UPDATE', sender, { proposalId: args[1], ratios: parseRatios(args.slice(2)) });
+      break;
+    case 'pause':
+      alert = createAlertMessage('PAUSE', sender, { reason });
+      break;
+    case 'resume':
+      alert = createAlertMessage('RESUME', sender, { reason });
+      break;
+    case 'status':
+      alert = createAlertMessage('STATUS_REQUEST', sender, {});
+      break;
+    default:
+      console.log('📋 Available alert commands:');
+      console.log('  test [reason]                   - Send FORCE_REBALANCE (alias: force)');
+      console.log('  ratio <proposalId> SYM=N ...    - Send RATIO_UPDATE with the new ratios');
+      console.log('  pause [reason]                  - Send PAUSE (agent stops rebalancing)');
+      console.log('  resume [reason]                 - Send RESUME');
+      console.log('  status                          - Send STATUS_REQUEST (reply goes to the dashboard topic)');
+      console.log('\n💡 Examples:');
+      console.log('   npm run test:alert test');
+      console.log('   npm run test:alert ratio prop-42 HBAR=50 WBTC=4 SAUCE=30 USDC=30 JAM=30 HEADSTART=20');
+      console.log('   npm run test:alert pause Contract upgrade in progress');
+      console.log('\n📊 Note: The balancer agent only acts on valid protocol messages');
+      console.log('   - Malformed messages are rejected');
+      console.log('   - RATIO_UPDATE is only acted on once the ratios match getCurrentRatios');
+      return;
+  }
 
-  const sender = new SimpleAlertSender();
+  const alertSender = new SimpleAlertSender();
 
   try {
-    await sender.initialize();
-
-    switch (command.toLowerCase()) {
-      case 'hbar':
-        await sender.sendAlert('hbar');
-        break;
-      case 'sauce':
-        await sender.sendAlert('sauce');
-        break;
-      case 'usdc':
-        await sender.sendAlert('usdc');
-        break;
-      case 'test':
-        await sender.sendAlert('test');
-        break;
-      default:
-        console.log("📋 Available alert commands:");
-        console.log("  test    - Send simple test alert to trigger rebalancing");
-        console.log("  hbar    - Send HBAR governance update alert");
-        console.log("  sauce   - Send SAUCE governance update alert");
-        console.log("  usdc    - Send USDC governance update alert");
-        console.log("\n💡 Examples:");
-        console.log("   npm run test:alert test");
-        console.log("   npm run test:alert hbar");
-        console.log("   npm run test:alert sauce");
-        console.log("\n📊 Note: The balancer agent now triggers rebalancing on ANY message");
-        console.log("   - Message content doesn't matter");
-        console.log("   - Agent uses real-time topic subscription");
-        console.log("   - Any message will trigger immediate rebalancing");
-        break;
-    }
-
+    await alertSender.initialize();
+    await alertSender.sendAlert(alert);
   } catch (error) {
-    console.error("❌ Failed to send alert:", error);
+    console.error('❌ Failed to send alert:', error);
     process.exit(1);
+  } finally {
+    alertSender.close();
   }
 }
 
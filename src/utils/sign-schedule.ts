@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+import { config } from 'dotenv';
+import { Client, PrivateKey, ScheduleId, ScheduleInfoQuery, ScheduleSignTransaction } from '@hashgraph/sdk';
+import { createHederaClient } from './hedera-client.js';
+
+// Load environment variables
+config();
+
+/**
+ * Print a schedule created by the agent in scheduled signing mode
+ */
+async function showSchedule(client: Client, scheduleId: ScheduleId): Promise<void> {
+  const info = await new ScheduleInfoQuery().setScheduleId(scheduleId).execute(client);
+
+  console.log(`🗓️  Schedule ${info.scheduleId}`);
+  console.log(`   Memo: ${info.scheduleMemo || '-'}`);
+  console.log(`   Created by: ${info.creatorAccountId}, payer: ${info.payerAccountId}`);
+  console.log(`   Transaction: ${info.scheduledTransaction.constructor.name} (${info.scheduledTransactionId})`);
+  console.log(`   Body: ${JSON.stringify(info.schedulableTransactionBody)}`);
+  console.log(`   Signatures so far: ${info.signers?.toArray().length ?? 0}`);
+  console.log(`   Expires: ${info.expirationTime?.toDate().toISOString() ?? '-'}`);
+  console.log(`   State: ${info.executed ? `executed at ${info.executed.toDate().toISOString()}` : info.deleted ? `deleted at ${info.deleted.toDate().toISOString()}` : 'pending'}`);
+}
+
+/**
+ * Add a signature to a pending schedule. Uses SCHEDULE_SIGNING_KEY if set, otherwise the operator key.
+ */
+async function signSchedule(client: Client, scheduleId: ScheduleId): Promise<void> {
+  const signingKey = PrivateKey.fromString(process.env.SCHEDULE_SIGNING_KEY || process.env.HEDERA_PRIVATE_KEY!);
+
+  const transaction = await new ScheduleSignTransaction()
+    .setScheduleId(scheduleId)
+    .freezeWith(client);
+  const response = await (await transaction.sign(signingKey)).execute(client);
+  const receipt = await response.getReceipt(client);
+
+  console.log(`🔏 Signed with public key ${signingKey.publicKey.toStringDer()}`);
+  console.log(`✅ Schedule ${scheduleId} signed: ${receipt.status}`);
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  console.log('🦌⚡ Schedule Signer');
+  console.log('==================');
+
+  const args = process.argv.slice(2);
+  const command = (args[0] || '').toLowerCase();
+  if (!['show', 'sign'].includes(command) || !args[1]) {
+    console.log('📋 Available commands:');
+    console.log('  show <scheduleId>  - Print the scheduled treasury transaction and its state');
+    console.log('  sign <scheduleId>  - Add your signature (SCHEDULE_SIGNING_KEY or the operator key)');
+    console.log('\n💡 Schedule IDs are announced as SCHEDULE_CREATED events on the dashboard topic');
+    return;
+  }
+
+  const client = createHederaClient();
+  try {
+    const scheduleId = ScheduleId.fromString(args[1]);
+    await showSchedule(client, scheduleId);
+    if (command === 'sign') {
+      await signSchedule(client, scheduleId);
+    }
+  } catch (error) {
+    console.error('❌ Failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    client.close();
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
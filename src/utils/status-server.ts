@@ -0,0 +1,128 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { Logger } from './logger.js';
+import { SubscriptionStatus } from './supervised-subscription.js';
+
+const logger = new Logger('status-server');
+
+/**
+ * Where the status server listens
+ */
+export interface StatusServerConfig {
+  port: number;
+  host: string;
+}
+
+/**
+ * Liveness of the agent's connections, served by /healthz (503 when not healthy)
+ */
+export interface HealthReport {
+  healthy: boolean;
+  client: { connected: boolean; checkedAt: string | null; error?: string };
+  subscription: SubscriptionStatus & { active: boolean };
+}
+
+/**
+ * Callbacks that produce each endpoint's body
+ */
+export interface StatusServerHandlers {
+  health(): Promise<HealthReport>;
+  status(): Promise<object> | object;
+  metrics(): string;
+}
+
+/**
+ * Status Server
+ * Small embedded HTTP server for operators and probes:
+ * - GET /healthz  client connectivity and subscription liveness (200 or 503)
+ * - GET /status   last contract state, last run, rebalancing lock and next scheduled check
+ * - GET /metrics  Prometheus counters and gauges
+ */
+export class StatusServer {
+  private server?: Server;
+
+  constructor(
+    private readonly config: StatusServerConfig,
+    private readonly handlers: StatusServerHandlers
+  ) {}
+
+  /**
+   * Read STATUS_PORT and STATUS_HOST (default 127.0.0.1). Returns undefined when no port is set.
+   */
+  static configFromEnvironment(env: NodeJS.ProcessEnv = process.env): StatusServerConfig | undefined {
+    if (!env.STATUS_PORT) {
+      return undefined;
+    }
+
+    const port = parseInt(env.STATUS_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`STATUS_PORT must be a port number, got "${env.STATUS_PORT}"`);
+    }
+    return { port, host: env.STATUS_HOST || '127.0.0.1' };
+  }
+
+  async start(): Promise<void> {
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        logger.error(`❌ Failed to serve ${request.url}`, { error });
+        if (!response.headersSent) {
+          this.send(response, 500, 'application/json', JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+        } else {
+          response.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = server.address();
+    const port = address && typeof address === 'object' ? address.port : this.config.port;
+    logger.info(`🩺 Status server listening on http://${this.config.host}:${port} (/healthz, /status, /metrics)`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeAllConnections();
+    await closed;
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.setHeader('Allow', 'GET, HEAD');
+      this.send(response, 405, 'text/plain', 'Method Not Allowed\n');
+      return;
+    }
+
+    const path = new URL(request.url || '/', 'http://localhost').pathname;
+    switch (path) {
+      case '/healthz': {
+        const health = await this.handlers.health();
+        this.send(response, health.healthy ? 200 : 503, 'application/json', JSON.stringify(health, null, 2));
+        return;
+      }
+      case '/status':
+        this.send(response, 200, 'application/json', JSON.stringify(await this.handlers.status(), null, 2));
+        return;
+      case '/metrics':
+        this.send(response, 200, 'text/plain; version=0.0.4; charset=utf-8', this.handlers.metrics());
+        return;
+      default:
+        this.send(response, 404, 'text/plain', 'Not Found\n');
+    }
+  }
+
+  private send(response: ServerResponse, statusCode: number, contentType: string, body: string): void {
+    response.writeHead(statusCode, { 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+    response.end(response.req.method === 'HEAD' ? undefined : body);
+  }
+}
@@ -0,0 +1,207 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { Logger } from './logger.js';
+
+const logger = new Logger('journal');
+
+/**
+ * Version of the journal file format
+ */
+export const STEP_JOURNAL_VERSION = 1;
+
+/**
+ * What is known about a journaled transaction
+ * - pending:      written before submission; the outcome is not known yet
+ * - succeeded:    reached consensus with SUCCESS (in scheduled mode: the schedule executed successfully)
+ * - failed:       reached consensus with another status, or the schedule was deleted or expired
+ * - not_executed: rejected at precheck, or its valid duration passed without reaching consensus
+ */
+export type JournalTransactionState = 'pending' | 'succeeded' | 'failed' | 'not_executed';
+
+/**
+ * A transaction the agent was about to submit (the ScheduleCreateTransaction in scheduled mode)
+ */
+export interface JournalTransaction {
+  transactionId: string;
+  functionName: string;
+  validUntil: string; // the network accepts the transaction only until this time
+  scheduled: boolean;
+  state: JournalTransactionState;
+  status?: string;
+  scheduleId?: string;
+  scheduledTransactionId?: string;
+  recordedAt: string;
+}
+
+/**
+ * One planned step of the journaled run
+ */
+export interface JournalStep {
+  tokenSymbol: string;
+  tokenId: string;
+  action: 'withdraw' | 'deposit';
+  amount: string;
+  amountSmallestUnits: string;
+  contractFunction: string;
+  expectedBalance: string;
+  state: 'planned' | 'in_progress' | 'succeeded' | 'failed';
+  transactions: JournalTransaction[];
+}
+
+/**
+ * The run whose steps are being executed
+ */
+export interface JournaledRun {
+  version: typeof STEP_JOURNAL_VERSION;
+  runId: string;
+  trigger: string;
+  contractId: string;
+  startedAt: string;
+  currentStep: number | null;
+  steps: JournalStep[];
+}
+
+/**
+ * Write-ahead record of a transaction about to be submitted
+ */
+export interface SubmittingTransaction {
+  transactionId: string;
+  functionName: string;
+  validUntil: Date;
+  scheduled: boolean;
+}
+
+/**
+ * Outcome of a journaled transaction once it is known
+ */
+export interface SettledTransaction {
+  state: Exclude<JournalTransactionState, 'pending'>;
+  status?: string;
+  scheduleId?: string;
+  scheduledTransactionId?: string;
+}
+
+/**
+ * Step Journal
+ * Write-ahead journal of the run being executed (STEP_JOURNAL_FILE, default
+ * .balancer/step-journal.json). Every transaction ID is written before the transaction is
+ * submitted and updated once its outcome is known, so after a crash the agent can look up what
+ * actually reached consensus instead of guessing. The file is rewritten atomically on every
+ * change and removed once the run ends with no transaction left pending.
+ */
+export class StepJournal {
+  private run?: JournaledRun;
+
+  constructor(readonly path: string = process.env.STEP_JOURNAL_FILE || '.balancer/step-journal.json') {}
+
+  /**
+   * The journaled run left on disk, if any
+   */
+  load(): JournaledRun | undefined {
+    if (!existsSync(this.path)) {
+      return undefined;
+    }
+
+    const run = JSON.parse(readFileSync(this.path, 'utf8')) as JournaledRun;
+    if (run.version !== STEP_JOURNAL_VERSION) {
+      throw new Error(`Unsupported step journal version ${run.version} in ${this.path}`);
+    }
+    this.run = run;
+    return run;
+  }
+
+  /**
+   * Start journaling a run's steps (replaces a settled journal)
+   */
+  begin(run: Omit<JournaledRun, 'version' | 'currentStep' | 'steps'>, steps: Array<Omit<JournalStep, 'state' | 'transactions'>>): void {
+    this.run = {
+      version: STEP_JOURNAL_VERSION,
+      ...run,
+      currentStep: null,
+      steps: steps.map(step => ({ ...step, state: 'planned', transactions: [] }))
+    };
+    this.save();
+  }
+
+  startStep(index: number): void {
+    if (!this.run) return;
+    this.run.currentStep = index;
+    this.run.steps[index].state = 'in_progress';
+    this.save();
+  }
+
+  finishStep(index: number, succeeded: boolean): void {
+    if (!this.run) return;
+    this.run.currentStep = null;
+    this.run.steps[index].state = succeeded ? 'succeeded' : 'failed';
+    this.save();
+  }
+
+  /**
+   * Record a transaction of the current step before it is submitted. Throws if the journal
+   * cannot be written, so nothing is submitted without a record.
+   */
+  submitting(transaction: SubmittingTransaction): void {
+    const step = this.currentStep();
+    if (!step) return; // not part of a journaled run (e.g. a tool called outside rebalancing)
+
+    step.transactions.push({
+      transactionId: transaction.transactionId,
+      functionName: transaction.functionName,
+      validUntil: transaction.validUntil.toISOString(),
+      scheduled: transaction.scheduled,
+      state: 'pending',
+      recordedAt: new Date().toISOString()
+    });
+    this.save();
+  }
+
+  /**
+   * Record the outcome of a journaled transaction
+   */
+  settled(transactionId: string, outcome: SettledTransaction): void {
+    const transaction = this.run?.steps.flatMap(step => step.transactions).find(entry => entry.transactionId === transactionId);
+    if (!transaction) return;
+
+    Object.assign(transaction, outcome, { recordedAt: new Date().toISOString() });
+    this.save();
+  }
+
+  /**
+   * Transactions whose outcome is still unknown
+   */
+  pendingTransactions(): JournalTransaction[] {
+    return this.run?.steps.flatMap(step => step.transactions).filter(transaction => transaction.state === 'pending') ?? [];
+  }
+
+  /**
+   * End the journal for a run. It is kept while a transaction is still pending, so the next
+   * run (or the next start) resolves it first.
+   */
+  close(runId: string): void {
+    if (!this.run || this.run.runId !== runId) return;
+
+    const pending = this.pendingTransactions();
+    if (pending.length > 0) {
+      logger.warn(`📒 Keeping the step journal of run ${runId}: ${pending.length} transaction(s) with unknown outcome (${pending.map(transaction => transaction.transactionId).join(', ')})`);
+      return;
+    }
+    this.clear();
+  }
+
+  clear(): void {
+    this.run = undefined;
+    rmSync(this.path, { force: true });
+  }
+
+  private currentStep(): JournalStep | undefined {
+    return this.run && this.run.currentStep !== null ? this.run.steps[this.run.currentStep] : undefined;
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.run, null, 2));
+    renameSync(tempPath, this.path);
+  }
+}
@@ -0,0 +1,251 @@
+import { Client, SubscriptionHandle, TopicMessageQuery } from '@hashgraph/sdk';
+import { Logger } from './logger.js';
+import {
+  ReceivedTopicMessage,
+  compareConsensusTimestamps,
+  fetchLatestTopicMessage,
+  fromTopicMessage,
+  parseConsensusTimestamp
+} from './topic-messages.js';
+
+const logger = new Logger('subscription');
+
+// A new stream that has not failed after this long is considered live
+const SETTLE_MS = 5000;
+
+/**
+ * Reconnect and stall detection settings
+ */
+export interface SubscriptionSupervisorConfig {
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  stallTimeoutMs: number; // no message and no successful mirror ping for this long means stalled
+  pingIntervalMs: number; // how often the watchdog pings the mirror node REST API
+}
+
+/**
+ * - connecting:   first subscribe in progress
+ * - live:         the stream delivered a message or stayed open for a few seconds
+ * - reconnecting: the stream failed; waiting out the backoff before resubscribing
+ * - stalled:      the watchdog found the stream silent or behind the mirror node; resubscribing
+ * - stopped:      not subscribed
+ */
+export type SubscriptionState = 'connecting' | 'live' | 'reconnecting' | 'stalled' | 'stopped';
+
+/**
+ * Subscription state shared with the rest of the agent (status, health, heartbeat)
+ */
+export interface SubscriptionStatus {
+  state: SubscriptionState;
+  topicId: string | null;
+  subscribedAt: string | null;
+  lastMessageAt: string | null;
+  lastPingAt: string | null;
+  lastSeenTimestamp: string | null; // consensus timestamp resubscriptions resume after
+  reconnects: number;
+  nextRetryAt: string | null;
+  lastError?: string;
+}
+
+/**
+ * Supervised Subscription
+ * Wraps TopicMessageQuery.subscribe with reconnects and a stall watchdog. The SDK's own retries
+ * are disabled so every failure is visible here: a stream error or completion resubscribes after
+ * an exponential backoff, starting right after the last consensus timestamp seen, so no message
+ * is skipped or delivered twice. The watchdog pings the mirror node REST API; if neither a
+ * message nor a ping arrived within the stall timeout, or the mirror node has a message the
+ * stream never delivered, the subscription is flagged as stalled and restarted.
+ */
+export class SupervisedSubscription {
+  private handle?: SubscriptionHandle;
+  private retryTimer?: NodeJS.Timeout;
+  private settleTimer?: NodeJS.Timeout;
+  private watchdogTimer?: NodeJS.Timeout;
+  private attempt = 0; // consecutive failures, drives the backoff
+  private generation = 0; // ignores callbacks of replaced subscriptions
+  private readonly status: SubscriptionStatus;
+  private readonly listeners: Array<(status: SubscriptionStatus) => void> = [];
+
+  constructor(
+    private readonly client: Client,
+    private readonly topicId: string,
+    private readonly onMessage: (message: ReceivedTopicMessage) => Promise<void>,
+    private readonly config: SubscriptionSupervisorConfig
+  ) {
+    this.status = {
+      state: 'stopped',
+      topicId,
+      subscribedAt: null,
+      lastMessageAt: null,
+      lastPingAt: null,
+      lastSeenTimestamp: null,
+      reconnects: 0,
+      nextRetryAt: null
+    };
+  }
+
+  /**
+   * Read SUBSCRIPTION_INITIAL_BACKOFF_MS (default 1000), SUBSCRIPTION_MAX_BACKOFF_MS (default 60000),
+   * SUBSCRIPTION_STALL_TIMEOUT_MS (default 180000) and SUBSCRIPTION_PING_INTERVAL_MS (default 60000)
+   */
+  static configFromEnvironment(env: NodeJS.ProcessEnv = process.env): SubscriptionSupervisorConfig {
+    const config = {
+      initialBackoffMs: parseInt(env.SUBSCRIPTION_INITIAL_BACKOFF_MS || '1000'),
+      maxBackoffMs: parseInt(env.SUBSCRIPTION_MAX_BACKOFF_MS || '60000'),
+      stallTimeoutMs: parseInt(env.SUBSCRIPTION_STALL_TIMEOUT_MS || '180000'),
+      pingIntervalMs: parseInt(env.SUBSCRIPTION_PING_INTERVAL_MS || '60000')
+    };
+    for (const [key, value] of Object.entries(config)) {
+      if (!(value > 0)) {
+        throw new Error(`Subscription setting ${key} must be a positive number of milliseconds`);
+      }
+    }
+    if (config.pingIntervalMs >= config.stallTimeoutMs) {
+      throw new Error('SUBSCRIPTION_PING_INTERVAL_MS must be shorter than SUBSCRIPTION_STALL_TIMEOUT_MS');
+    }
+    return config;
+  }
+
+  /**
+   * Subscribe to messages after the given consensus timestamp and start the watchdog
+   */
+  start(afterTimestamp: string): void {
+    this.status.lastSeenTimestamp = afterTimestamp;
+    this.setState('connecting');
+    this.subscribe();
+    this.watchdogTimer = setInterval(() => this.watchdog(), this.config.pingIntervalMs);
+  }
+
+  stop(): void {
+    this.generation++;
+    this.handle?.unsubscribe();
+    this.handle = undefined;
+    clearTimeout(this.retryTimer);
+    clearTimeout(this.settleTimer);
+    clearInterval(this.watchdogTimer);
+    this.retryTimer = undefined;
+    this.watchdogTimer = undefined;
+    this.status.nextRetryAt = null;
+    this.setState('stopped');
+  }
+
+  getStatus(): SubscriptionStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Register a listener for state changes
+   */
+  onStateChange(listener: (status: SubscriptionStatus) => void): void {
+    this.listeners.push(listener);
+  }
+
+  private subscribe(): void {
+    const generation = ++this.generation;
+    const startTime = parseConsensusTimestamp(this.status.lastSeenTimestamp!).plusNanos(1);
+    logger.info(`🔄 Subscribing to ${this.topicId} from ${startTime.toDate().toISOString()}`);
+
+    this.handle = new TopicMessageQuery()
+      .setTopicId(this.topicId)
+      .setStartTime(startTime)
+      .setMaxAttempts(0)
+      .setCompletionHandler(() => {
+        if (generation === this.generation) this.fail('Mirror node closed the stream');
+      })
+      .subscribe(
+        this.client,
+        (message, error) => {
+          // A non-null message means our listener threw; the stream itself is fine
+          if (generation !== this.generation || message) return;
+          this.fail(error.message);
+        },
+        topicMessage => {
+          if (generation !== this.generation) return;
+          const message = fromTopicMessage(topicMessage);
+          if (compareConsensusTimestamps(message.consensusTimestamp, this.status.lastSeenTimestamp!) <= 0) {
+            return; // already delivered before a resubscribe
+          }
+
+          this.status.lastSeenTimestamp = message.consensusTimestamp;
+          this.status.lastMessageAt = new Date().toISOString();
+          this.status.lastError = undefined;
+          this.attempt = 0;
+          this.setState('live');
+          this.onMessage(message).catch(error => logger.error('❌ Error processing topic message', { error }));
+        }
+      );
+
+    this.status.subscribedAt = new Date().toISOString();
+    clearTimeout(this.settleTimer);
+    this.settleTimer = setTimeout(() => {
+      if (generation === this.generation) this.setState('live');
+    }, Math.min(SETTLE_MS, this.config.pingIntervalMs));
+  }
+
+  /**
+   * Drop the current stream and resubscribe after the backoff
+   */
+  private fail(reason: string, state: 'reconnecting' | 'stalled' = 'reconnecting'): void {
+    this.generation++;
+    this.handle?.unsubscribe();
+    this.handle = undefined;
+    if (this.retryTimer) return; // a resubscribe is already scheduled
+
+    const delay = Math.min(this.config.initialBackoffMs * 2 ** this.attempt, this.config.maxBackoffMs);
+    this.attempt++;
+    this.status.lastError = reason;
+    this.status.nextRetryAt = new Date(Date.now() + delay).toISOString();
+    this.setState(state);
+    logger.warn(`⚠️  Subscription to ${this.topicId} ${state === 'stalled' ? 'stalled' : 'failed'}: ${reason} - resubscribing in ${delay}ms (attempt ${this.attempt})`);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.status.nextRetryAt = null;
+      this.status.reconnects++;
+      this.subscribe();
+    }, delay);
+  }
+
+  private async watchdog(): Promise<void> {
+    if (this.status.state !== 'live') return;
+    const generation = this.generation;
+
+    try {
+      const latest = await fetchLatestTopicMessage(this.topicId);
+      if (generation !== this.generation) return;
+      this.status.lastPingAt = new Date().toISOString();
+
+      // The mirror node has a message the stream should have delivered by now
+      if (latest && compareConsensusTimestamps(latest.consensusTimestamp, this.status.lastSeenTimestamp!) > 0) {
+        const ageMs = Date.now() - parseConsensusTimestamp(latest.consensusTimestamp).toDate().getTime();
+        if (ageMs > this.config.pingIntervalMs) {
+          this.fail(`message #${latest.sequenceNumber} is on the mirror node but was not delivered`, 'stalled');
+          return;
+        }
+      }
+    } catch (error) {
+      logger.warn('⚠️  Mirror node ping failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (generation !== this.generation) return;
+    const lastSignOfLife = Math.max(
+      ...[this.status.subscribedAt, this.status.lastMessageAt, this.status.lastPingAt].map(time => (time ? Date.parse(time) : 0))
+    );
+    if (Date.now() - lastSignOfLife > this.config.stallTimeoutMs) {
+      this.fail(`no messages or mirror pings for ${this.config.stallTimeoutMs}ms`, 'stalled');
+      return;
+    }
+
+    // A stream that has stayed up for a full stall window is healthy again
+    if (Date.now() - Date.parse(this.status.subscribedAt!) >= this.config.stallTimeoutMs) {
+      this.attempt = 0;
+    }
+  }
+
+  private setState(state: SubscriptionState): void {
+    if (this.status.state === state) return;
+    this.status.state = state;
+    const snapshot = this.getStatus();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
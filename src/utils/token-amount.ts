@@ -0,0 +1,126 @@
+/**
+ * Parse an integer string of smallest units (e.g. tool input) into a bigint
+ */
+export function parseRawUnits(value: string): bigint {
+  const text = String(value).trim();
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Amount must be a whole number of smallest units, got "${text}"`);
+  }
+  return BigInt(text);
+}
+
+/**
+ * Token Amount
+ * Fixed-point amount stored as a bigint count of smallest units (tinybars for HBAR).
+ * Human-readable values are only produced for display and never fed back into arithmetic.
+ */
+export class TokenAmount {
+  private constructor(
+    readonly raw: bigint,
+    readonly decimals: number
+  ) {}
+
+  /**
+   * Create an amount from smallest units (bigint, integer string, Long or BigNumber)
+   */
+  static fromRaw(raw: bigint | string | number | { toString(): string }, decimals: number): TokenAmount {
+    if (typeof raw === 'bigint') {
+      return new TokenAmount(raw, decimals);
+    }
+    if (typeof raw === 'number' && !Number.isSafeInteger(raw)) {
+      throw new Error(`Raw amount must be a safe integer, got ${raw}`);
+    }
+
+    const value = raw.toString().trim();
+    if (!/^-?\d+$/.test(value)) {
+      throw new Error(`Invalid raw amount: "${value}"`);
+    }
+    return new TokenAmount(BigInt(value), decimals);
+  }
+
+  /**
+   * Create an amount from a human-readable decimal value (e.g. "34.199932")
+   * Numbers are rounded to the token's decimals; strings must not exceed them.
+   */
+  static fromHuman(value: string | number, decimals: number): TokenAmount {
+    const text = typeof value === 'number' ? value.toFixed(decimals) : value.trim();
+    const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(text);
+    if (!match || (match[2] === '' && !match[3])) {
+      throw new Error(`Invalid amount: "${text}"`);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    if (fraction.length > decimals && /[1-9]/.test(fraction.slice(decimals))) {
+      throw new Error(`Amount ${text} has more than ${decimals} decimals`);
+    }
+
+    const raw = BigInt((whole || '0') + fraction.slice(0, decimals).padEnd(decimals, '0'));
+    return new TokenAmount(sign === '-' ? -raw : raw, decimals);
+  }
+
+  static zero(decimals: number): TokenAmount {
+    return new TokenAmount(0n, decimals);
+  }
+
+  add(other: TokenAmount): TokenAmount {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.raw + other.raw, this.decimals);
+  }
+
+  sub(other: TokenAmount): TokenAmount {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.raw - other.raw, this.decimals);
+  }
+
+  abs(): TokenAmount {
+    return this.raw < 0n ? new TokenAmount(-this.raw, this.decimals) : this;
+  }
+
+  /**
+   * Multiply by numerator / denominator, rounding towards zero
+   */
+  mulDiv(numerator: bigint, denominator: bigint): TokenAmount {
+    return new TokenAmount((this.raw * numerator) / denominator, this.decimals);
+  }
+
+  compare(other: TokenAmount): number {
+    this.assertSameDecimals(other);
+    return this.raw === other.raw ? 0 : this.raw > other.raw ? 1 : -1;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  /**
+   * Exact decimal representation without trailing zeros
+   */
+  toHuman(): string {
+    const negative = this.raw < 0n;
+    const digits = (negative ? -this.raw : this.raw).toString().padStart(this.decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - this.decimals);
+    const fraction = digits.slice(digits.length - this.decimals).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Approximate value for display and percentage calculations only
+   */
+  toNumber(): number {
+    return Number(this.toHuman());
+  }
+
+  toString(): string {
+    return this.toHuman();
+  }
+
+  toJSON(): string {
+    return this.toHuman();
+  }
+
+  private assertSameDecimals(other: TokenAmount): void {
+    if (other.decimals !== this.decimals) {
+      throw new Error(`Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { readFileSync } from 'fs';
+import { Client, TokenId, TokenInfoQuery } from '@hashgraph/sdk';
+import { parse as parseYaml } from 'yaml';
+import dotenv from 'dotenv';
+import { Logger } from './logger.js';
+
+const logger = new Logger('registry');
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * A token held by the treasury
+ */
+export interface TokenDefinition {
+  symbol: string;
+  tokenId: string; // 'HBAR' for the native currency
+  decimals: number;
+  name: string;
+}
+
+/**
+ * Registry file format (JSON or YAML)
+ */
+interface TokenRegistryFile {
+  lynxTokenId?: string;
+  tokens: Array<{ symbol: string; tokenId: string; decimals: number; name?: string }>;
+}
+
+/**
+ * Default basket in getCurrentRatios order, used when BASKET_TOKENS is not set
+ */
+const DEFAULT_BASKET = ['HBAR', 'WBTC', 'SAUCE', 'USDC', 'JAM', 'HEADSTART'];
+
+/**
+ * Default decimals for known tokens in env-based configuration
+ */
+const DEFAULT_DECIMALS: Record<string, number> = {
+  HBAR: 8,
+  WBTC: 8,
+  SAUCE: 6,
+  USDC: 6,
+  JAM: 8,
+  HEADSTART: 8
+};
+
+/**
+ * Token Registry
+ * Single source of token IDs and decimals for the agent, state manager, verifier and tools.
+ * Loaded from TOKEN_REGISTRY_FILE (JSON or YAML) or from the CONTRACT_*_TOKEN variables.
+ * The token order defines the basket composition and must match the getCurrentRatios slots.
+ */
+export class TokenRegistry {
+  private constructor(
+    private readonly tokens: TokenDefinition[],
+    readonly lynxTokenId: string
+  ) {
+    if (tokens.length === 0) {
+      throw new Error('Token registry must contain at least one basket token');
+    }
+
+    const symbols = new Set<string>();
+    for (const token of tokens) {
+      if (symbols.has(token.symbol)) {
+        throw new Error(`Duplicate token symbol in registry: ${token.symbol}`);
+      }
+      if (!Number.isInteger(token.decimals) || token.decimals < 0) {
+        throw new Error(`Invalid decimals for ${token.symbol}: ${token.decimals}`);
+      }
+      symbols.add(token.symbol);
+    }
+  }
+
+  /**
+   * Load the registry from TOKEN_REGISTRY_FILE if set, otherwise from environment variables
+   */
+  static load(env: NodeJS.ProcessEnv = process.env): TokenRegistry {
+    return env.TOKEN_REGISTRY_FILE
+      ? TokenRegistry.fromFile(env.TOKEN_REGISTRY_FILE, env)
+      : TokenRegistry.fromEnvironment(env);
+  }
+
+  /**
+   * Build the registry from BASKET_TOKENS (comma-separated symbols in ratio order),
+   * CONTRACT_<SYMBOL>_TOKEN and optional CONTRACT_<SYMBOL>_DECIMALS variables
+   */
+  static fromEnvironment(env: NodeJS.ProcessEnv = process.env): TokenRegistry {
+    const missingVars: string[] = [];
+    const symbols = env.BASKET_TOKENS
+      ? env.BASKET_TOKENS.split(',').map(symbol => symbol.trim().toUpperCase()).filter(Boolean)
+      : DEFAULT_BASKET;
+
+    const tokens = symbols.map(symbol => {
+      const decimalsVar = env[`CONTRACT_${symbol}_DECIMALS`];
+      const decimals = decimalsVar ? parseInt(decimalsVar) : DEFAULT_DECIMALS[symbol];
+      if (decimals === undefined) {
+        missingVars.push(`CONTRACT_${symbol}_DECIMALS`);
+      }
+
+      if (symbol === 'HBAR') {
+        return { symbol, tokenId: 'HBAR', decimals: 8, name: 'HBAR' };
+      }
+
+      const tokenId = env[`CONTRACT_${symbol}_TOKEN`];
+      if (!tokenId) {
+        missingVars.push(`CONTRACT_${symbol}_TOKEN`);
+      }
+
+      return {
+        symbol,
+        tokenId: tokenId || '',
+        decimals: decimals ?? 0,
+        name: symbol
+      };
+    });
+
+    if (!env.CONTRACT_LYNX_TOKEN) {
+      missingVars.push('CONTRACT_LYNX_TOKEN');
+    }
+    if (missingVars.length > 0) {
+      throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
+    }
+
+    return new TokenRegistry(tokens, env.CONTRACT_LYNX_TOKEN!);
+  }
+
+  /**
+   * Build the registry from a JSON or YAML file
+   */
+  static fromFile(path: string, env: NodeJS.ProcessEnv = process.env): TokenRegistry {
+    const content = readFileSync(path, 'utf8');
+    const data = (/\.ya?ml$/i.test(path) ? parseYaml(content) : JSON.parse(content)) as TokenRegistryFile;
+
+    if (!data || !Array.isArray(data.tokens)) {
+      throw new Error(`Token registry file ${path} must contain a "tokens" list`);
+    }
+
+    const lynxTokenId = data.lynxTokenId || env.CONTRACT_LYNX_TOKEN;
+    if (!lynxTokenId) {
+      throw new Error(`Token registry file ${path} has no lynxTokenId and CONTRACT_LYNX_TOKEN is not set`);
+    }
+
+    const tokens = data.tokens.map(token => ({
+      symbol: token.symbol,
+      tokenId: token.tokenId,
+      decimals: token.decimals,
+      name: token.name || token.symbol
+    }));
+
+    return new TokenRegistry(tokens, lynxTokenId);
+  }
+
+  /**
+   * Check configured decimals against TokenInfoQuery for every HTS token
+   */
+  async validate(client: Client): Promise<void> {
+    logger.info('🔍 Validating token registry against the network...');
+
+    const mismatches: string[] = [];
+    for (const token of this.tokens) {
+      if (token.tokenId === 'HBAR') continue;
+
+      const tokenInfo = await new TokenInfoQuery()
+        .setTokenId(TokenId.fromString(token.tokenId))
+        .execute(client);
+
+      if (tokenInfo.decimals !== token.decimals) {
+        mismatches.push(`${token.symbol} (${token.tokenId}): configured ${token.decimals}, network ${tokenInfo.decimals}`);
+      }
+    }
+
+    if (mismatches.length > 0) {
+      throw new Error(`Token registry decimals do not match the network: ${mismatches.join('; ')}`);
+    }
+
+    logger.info(`✅ Token registry validated (${this.tokens.length} tokens)`);
+  }
+
+  /**
+   * All basket tokens, in getCurrentRatios order
+   */
+  getTokens(): TokenDefinition[] {
+    return [...this.tokens];
+  }
+
+  /**
+   * Look up a token by symbol, throwing if it is not registered
+   */
+  get(symbol: string): TokenDefinition {
+    const token = this.tokens.find(t => t.symbol === symbol);
+    if (!token) {
+      throw new Error(`Unknown token symbol: ${symbol}`);
+    }
+    return token;
+  }
+
+  /**
+   * Look up a token by Hedera token ID ('HBAR' for the native currency)
+   */
+  findByTokenId(tokenId: string): TokenDefinition | undefined {
+    return this.tokens.find(t => t.tokenId === tokenId);
+  }
+}
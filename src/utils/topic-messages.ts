@@ -0,0 +1,134 @@
+import { Timestamp, TopicMessage } from '@hashgraph/sdk';
+import { getMirrorNodeRestUrl } from './hedera-client.js';
+
+// An unresponsive mirror node must not hang the alert catch-up at startup
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * A consensus message from either the gRPC subscription or the mirror node REST API
+ */
+export interface ReceivedTopicMessage {
+  contents: Uint8Array;
+  sequenceNumber: number;
+  consensusTimestamp: string; // "seconds.nanos", as used by the mirror node
+  payer?: string;
+}
+
+/**
+ * Mirror node REST message (subset of the fields we use)
+ */
+interface MirrorTopicMessage {
+  consensus_timestamp: string;
+  message: string; // base64
+  payer_account_id: string;
+  sequence_number: number;
+  chunk_info?: {
+    initial_transaction_id?: { account_id?: string };
+    number: number;
+    total: number;
+  } | null;
+}
+
+/**
+ * Parse a "seconds.nanos" consensus timestamp
+ */
+export function parseConsensusTimestamp(value: string): Timestamp {
+  const [seconds, nanos = '0'] = value.split('.');
+  return new Timestamp(parseInt(seconds), parseInt(nanos.padEnd(9, '0')));
+}
+
+/**
+ * Order two "seconds.nanos" consensus timestamps (negative if a is earlier)
+ */
+export function compareConsensusTimestamps(a: string, b: string): number {
+  const toNanos = (value: string) => {
+    const [seconds, nanos = '0'] = value.split('.');
+    return BigInt(seconds) * 1_000_000_000n + BigInt(nanos.padEnd(9, '0'));
+  };
+  const difference = toNanos(a) - toNanos(b);
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+/**
+ * Normalize a message delivered by TopicMessageQuery
+ */
+export function fromTopicMessage(message: TopicMessage): ReceivedTopicMessage {
+  return {
+    contents: message.contents,
+    sequenceNumber: message.sequenceNumber.toNumber(),
+    consensusTimestamp: message.consensusTimestamp.toString(),
+    payer: message.initialTransactionId?.accountId?.toString()
+  };
+}
+
+/**
+ * Fetch all messages with a consensus timestamp after the given one, oldest first,
+ * following the mirror node's pagination links. Chunked messages are reassembled.
+ */
+export async function fetchTopicMessagesSince(
+  topicId: string,
+  afterTimestamp: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ReceivedTopicMessage[]> {
+  const baseUrl = getMirrorNodeRestUrl(env);
+  let next: string | null = `/api/v1/topics/${topicId}/messages?timestamp=gt:${afterTimestamp}&order=asc&limit=100`;
+
+  const messages: ReceivedTopicMessage[] = [];
+  let pendingChunks: MirrorTopicMessage[] = [];
+
+  while (next) {
+    const response = await fetch(`${baseUrl}${next}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Mirror node request failed: ${response.status} ${response.statusText} (${next})`);
+    }
+
+    const body = await response.json() as { messages: MirrorTopicMessage[]; links?: { next: string | null } };
+    for (const message of body.messages) {
+      const total = message.chunk_info?.total ?? 1;
+      if (total === 1) {
+        messages.push({
+          contents: Buffer.from(message.message, 'base64'),
+          sequenceNumber: message.sequence_number,
+          consensusTimestamp: message.consensus_timestamp,
+          payer: message.payer_account_id
+        });
+        continue;
+      }
+
+      // Chunks of one message arrive consecutively; emit once the last chunk is seen
+      pendingChunks.push(message);
+      if (message.chunk_info!.number === total) {
+        const first = pendingChunks[0];
+        messages.push({
+          contents: Buffer.concat(pendingChunks.map(chunk => Buffer.from(chunk.message, 'base64'))),
+          sequenceNumber: message.sequence_number,
+          consensusTimestamp: message.consensus_timestamp,
+          payer: first.chunk_info?.initial_transaction_id?.account_id || first.payer_account_id
+        });
+        pendingChunks = [];
+      }
+    }
+
+    next = body.links?.next || null;
+  }
+
+  return messages;
+}
+
+/**
+ * Sequence number and consensus timestamp of the newest message on a topic, or null if it has none
+ */
+export async function fetchLatestTopicMessage(
+  topicId: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<{ sequenceNumber: number; consensusTimestamp: string } | null> {
+  const path = `/api/v1/topics/${topicId}/messages?order=desc&limit=1`;
+  const response = await fetch(`${getMirrorNodeRestUrl(env)}${path}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Mirror node request failed: ${response.status} ${response.statusText} (${path})`);
+  }
+
+  const body = await response.json() as { messages: MirrorTopicMessage[] };
+  const latest = body.messages[0];
+  return latest ? { sequenceNumber: latest.sequence_number, consensusTimestamp: latest.consensus_timestamp } : null;
+}
@@ -0,0 +1,82 @@
+import { StatusError } from '@hashgraph/sdk';
+
+/**
+ * Why a submission failed, which decides what the caller may do next
+ * - retryable: nothing was executed and trying again can succeed (network busy, throttled, expired)
+ * - fatal:     trying again cannot help (insufficient balance, no association, contract revert, ...)
+ * - ambiguous: the transaction may have been submitted but no receipt was obtained; its outcome
+ *              must be looked up before anything is retried
+ */
+export type SubmissionFailure = 'retryable' | 'fatal' | 'ambiguous';
+
+/**
+ * Bounded retries with exponential backoff and full jitter
+ */
+export interface SubmissionRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Statuses that mean the network did not execute the transaction and a new attempt can succeed
+const RETRYABLE_STATUSES = new Set([
+  'BUSY',
+  'PLATFORM_TRANSACTION_NOT_CREATED',
+  'PLATFORM_NOT_ACTIVE',
+  'TRANSACTION_EXPIRED',
+  'THROTTLED_AT_CONSENSUS'
+]);
+
+// Statuses that mean the transaction may already be known to the network
+const AMBIGUOUS_STATUSES = new Set(['DUPLICATE_TRANSACTION']);
+
+/**
+ * Read TX_RETRY_MAX_ATTEMPTS (default 3), TX_RETRY_BASE_DELAY_MS (default 500) and
+ * TX_RETRY_MAX_DELAY_MS (default 8000)
+ */
+export function retryPolicyFromEnvironment(env: NodeJS.ProcessEnv = process.env): SubmissionRetryPolicy {
+  const policy = {
+    maxAttempts: parseInt(env.TX_RETRY_MAX_ATTEMPTS || '3'),
+    baseDelayMs: parseInt(env.TX_RETRY_BASE_DELAY_MS || '500'),
+    maxDelayMs: parseInt(env.TX_RETRY_MAX_DELAY_MS || '8000')
+  };
+  if (!(policy.maxAttempts >= 1)) {
+    throw new Error(`TX_RETRY_MAX_ATTEMPTS must be at least 1, got "${env.TX_RETRY_MAX_ATTEMPTS}"`);
+  }
+  if (!(policy.baseDelayMs >= 0) || !(policy.maxDelayMs >= policy.baseDelayMs)) {
+    throw new Error('TX_RETRY_BASE_DELAY_MS and TX_RETRY_MAX_DELAY_MS must be non-negative, with the maximum not below the base');
+  }
+  return policy;
+}
+
+/**
+ * Classify a Hedera status ("BUSY", "CONTRACT_REVERT_EXECUTED", ...). Statuses not known to be
+ * retryable are fatal, so an unexpected failure is never repeated blindly.
+ */
+export function classifyStatus(status: string): SubmissionFailure {
+  if (RETRYABLE_STATUSES.has(status)) return 'retryable';
+  if (AMBIGUOUS_STATUSES.has(status)) return 'ambiguous';
+  return 'fatal';
+}
+
+/**
+ * Classify an error thrown while submitting. submitted says whether the transaction may have
+ * left the process: errors without a status after that point (timeouts, dropped connections)
+ * are ambiguous, before it they are fatal (e.g. an invalid amount).
+ */
+export function classifyError(error: unknown, submitted: boolean): { failure: SubmissionFailure; status?: string } {
+  // Precheck and receipt errors both carry the status
+  if (error instanceof StatusError) {
+    const status = error.status.toString();
+    return { failure: classifyStatus(status), status };
+  }
+  return { failure: submitted ? 'ambiguous' : 'fatal' };
+}
+
+/**
+ * Delay before the next attempt: a random value up to base * 2^(attempt - 1), capped
+ */
+export function retryDelay(attempt: number, policy: SubmissionRetryPolicy): number {
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(Math.random() * ceiling);
+}
@@ -0,0 +1,110 @@
+import { Client, Status, TransactionId, TransactionReceiptQuery } from '@hashgraph/sdk';
+import { getMirrorNodeRestUrl } from './hedera-client.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger('transactions');
+
+// How long the mirror node may lag behind consensus before "not found" means "never executed"
+const MIRROR_LAG_MS = 30000;
+// How long to keep asking while the mirror node or the network cannot be reached
+const UNREACHABLE_GRACE_MS = 60000;
+const POLL_INTERVAL_MS = 5000;
+// Per request, so an unresponsive mirror node cannot stall the polling loop past its deadline
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Whether a transaction reached consensus, as far as the network and mirror node can tell
+ * - consensus: it did, with this status (entityId is e.g. the schedule ID of a ScheduleCreateTransaction)
+ * - unknown:   neither the receipt nor the mirror node knows it (yet)
+ */
+export type TransactionLookup =
+  | { state: 'consensus'; status: string; entityId?: string; source: 'receipt' | 'mirror' }
+  | { state: 'unknown' };
+
+interface MirrorTransaction {
+  result: string;
+  entity_id: string | null;
+  scheduled: boolean;
+  nonce: number;
+}
+
+/**
+ * Look up a transaction by ID: first its receipt (kept by consensus nodes for about three
+ * minutes), then the mirror node REST API.
+ */
+export async function lookupTransaction(
+  client: Client,
+  transactionId: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<TransactionLookup> {
+  try {
+    const receipt = await new TransactionReceiptQuery()
+      .setTransactionId(TransactionId.fromString(transactionId))
+      .setValidateStatus(false)
+      .execute(client);
+    if (receipt.status !== Status.Unknown) {
+      return { state: 'consensus', status: receipt.status.toString(), entityId: receipt.scheduleId?.toString(), source: 'receipt' };
+    }
+  } catch {
+    // RECEIPT_NOT_FOUND once the receipt has aged out; the mirror node has the history
+  }
+
+  const path = `/api/v1/transactions/${toMirrorTransactionId(transactionId)}`;
+  const response = await fetch(`${getMirrorNodeRestUrl(env)}${path}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (response.status === 404) {
+    return { state: 'unknown' };
+  }
+  if (!response.ok) {
+    throw new Error(`Mirror node request failed: ${response.status} ${response.statusText} (${path})`);
+  }
+
+  // The parent transaction, not a scheduled or child transaction sharing its ID
+  const body = await response.json() as { transactions: MirrorTransaction[] };
+  const transaction = body.transactions.find(entry => !entry.scheduled && entry.nonce === 0);
+  return transaction
+    ? { state: 'consensus', status: transaction.result, entityId: transaction.entity_id ?? undefined, source: 'mirror' }
+    : { state: 'unknown' };
+}
+
+/**
+ * Wait for the outcome of a submitted transaction whose receipt was lost. A transaction that is
+ * still unknown once its valid duration (plus mirror node lag) has passed can no longer reach
+ * consensus: not_executed. Returns undefined if the network and mirror node stay unreachable.
+ */
+export async function awaitTransactionOutcome(
+  client: Client,
+  transactionId: string,
+  validUntil: Date,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Exclude<TransactionLookup, { state: 'unknown' }> | { state: 'not_executed' } | undefined> {
+  const notExecutedAfter = validUntil.getTime() + MIRROR_LAG_MS;
+  const giveUpAt = Math.max(notExecutedAfter, Date.now()) + UNREACHABLE_GRACE_MS;
+
+  for (;;) {
+    try {
+      const lookup = await lookupTransaction(client, transactionId, env);
+      if (lookup.state === 'consensus') {
+        return lookup;
+      }
+      if (Date.now() > notExecutedAfter) {
+        return { state: 'not_executed' };
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Could not look up ${transactionId}`, { error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (Date.now() > giveUpAt) {
+      return undefined;
+    }
+    logger.info(`⏳ ${transactionId} not found yet - checking again until its valid duration has passed`);
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * "0.0.123@1700000000.000000123" → "0.0.123-1700000000-000000123"
+ */
+export function toMirrorTransactionId(transactionId: string): string {
+  const [accountId, validStart] = transactionId.split('@');
+  return `${accountId}-${validStart.replace('.', '-')}`;
+}
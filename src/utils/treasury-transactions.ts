@@ -0,0 +1,333 @@
+import { Client, ContractExecuteTransaction, ContractFunctionParameters, ContractId, TransferTransaction, AccountId, TokenId, Hbar, Long, PrecheckStatusError, ReceiptStatusError, Transaction } from '@hashgraph/sdk';
+import { ScheduledExecution, ScheduleOutcome } from './scheduled-execution.js';
+import { GasEstimate, GasEstimator } from './gas-estimator.js';
+import { StepJournal } from './step-journal.js';
+import { SubmissionFailure, SubmissionRetryPolicy, classifyError, classifyStatus, retryDelay, retryPolicyFromEnvironment } from './transaction-errors.js';
+import { awaitTransactionOutcome } from './transaction-lookup.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger('transactions');
+
+/**
+ * Result of a treasury transaction submitted through TreasuryTransactions
+ */
+export interface TreasuryTransactionResult {
+  success: boolean;
+  transactionId?: string;
+  status?: string;
+  functionName?: string;
+  error?: string;
+  scheduleId?: string; // set in scheduled signing mode
+  feeTinybars?: string; // network fee charged, from the transaction record
+  gasLimit?: string; // contract calls: gas limit submitted
+  gasUsed?: string; // contract calls: gas used, from the transaction record
+  failure?: SubmissionFailure; // why it failed: retryable (after the last retry), fatal or ambiguous
+  attempts: number; // submissions made, including retries
+}
+
+/**
+ * Freeze a transaction and return its ID and the end of its valid duration. Regeneration is
+ * turned off so the ID that was journaled is the one the network sees.
+ */
+export function freezeForJournal(transaction: Transaction, client: Client): { transactionId: string; validUntil: Date } {
+  transaction.setRegenerateTransactionId(false).freezeWith(client);
+  const transactionId = transaction.transactionId!;
+  const validStart = transactionId.validStart!.toDate().getTime();
+  return { transactionId: transactionId.toString(), validUntil: new Date(validStart + transaction.transactionValidDuration * 1000) };
+}
+
+/**
+ * Convert a positive smallest-unit amount to the SDK's Long without losing precision
+ */
+function toLong(amount: bigint): Long {
+  if (amount <= 0n || amount > BigInt(Long.MAX_VALUE.toString())) {
+    throw new Error(`Amount out of range: ${amount}`);
+  }
+  return Long.fromString(amount.toString());
+}
+
+/**
+ * Gas limit of a contract execution (undefined for transfers)
+ */
+function gasLimitOf(transaction: ContractExecuteTransaction | TransferTransaction): string | undefined {
+  return transaction instanceof ContractExecuteTransaction ? transaction.gas?.toString() : undefined;
+}
+
+/**
+ * Treasury Transactions
+ * Shared transaction layer used by the rebalance executor and the LangChain tools.
+ * All amounts are passed as bigint smallest units (tinybars for HBAR).
+ * Failures are classified as retryable, fatal or ambiguous (see transaction-errors.ts):
+ * retryable ones are retried with a fresh transaction ID after a jittered backoff, and an
+ * ambiguous one (submitted, no receipt) is looked up by ID before anything else happens.
+ * With a ScheduledExecution, transactions are scheduled for multi-key signing instead of
+ * being executed with the operator key alone. With a StepJournal, every transaction ID is
+ * journaled before submission and its outcome once known. Contract calls get their gas limit
+ * from the GasEstimator (simulation plus margin) and its fee ceiling.
+ */
+export class TreasuryTransactions {
+  private journal?: StepJournal;
+
+  constructor(
+    private client: Client,
+    private scheduler?: ScheduledExecution,
+    private retryPolicy: SubmissionRetryPolicy = retryPolicyFromEnvironment(),
+    private gasEstimator: GasEstimator = new GasEstimator(client)
+  ) {}
+
+  useJournal(journal: StepJournal): void {
+    this.journal = journal;
+  }
+
+  /**
+   * Withdraw HBAR from the governance contract using emergencyWithdrawHbar(uint256 amount)
+   */
+  async withdrawHbar(contractId: string, tinybars: bigint): Promise<TreasuryTransactionResult> {
+    const functionParameters = new ContractFunctionParameters()
+      .addUint256(toLong(tinybars));
+
+    return this.executeContract(contractId, 'emergencyWithdrawHbar', functionParameters);
+  }
+
+  /**
+   * Withdraw a token from the governance contract using adminWithdrawToken(address token, uint256 amount, string reason)
+   */
+  async withdrawToken(contractId: string, tokenId: string, amount: bigint, reason: string): Promise<TreasuryTransactionResult> {
+    const tokenAddress = TokenId.fromString(tokenId).toSolidityAddress();
+
+    const functionParameters = new ContractFunctionParameters()
+      .addAddress(tokenAddress)
+      .addUint256(toLong(amount))
+      .addString(reason);
+
+    return this.executeContract(contractId, 'adminWithdrawToken', functionParameters);
+  }
+
+  /**
+   * Transfer HBAR between accounts (e.g. operator to contract)
+   */
+  async transferHbar(fromAccountId: string, toAccountId: string, tinybars: bigint): Promise<TreasuryTransactionResult> {
+    const amount = toLong(tinybars);
+
+    return this.submit(() => new TransferTransaction()
+      .addHbarTransfer(AccountId.fromString(fromAccountId), Hbar.fromTinybars(amount.negate()))
+      .addHbarTransfer(AccountId.fromString(toAccountId), Hbar.fromTinybars(amount))
+      .setMaxTransactionFee(Hbar.fromTinybars(100000000)), // 1 HBAR max fee
+    'transfer');
+  }
+
+  /**
+   * Transfer a fungible token between accounts (e.g. operator to contract)
+   */
+  async transferToken(tokenId: string, fromAccountId: string, toAccountId: string, amount: bigint): Promise<TreasuryTransactionResult> {
+    const units = toLong(amount);
+
+    return this.submit(() => new TransferTransaction()
+      .addTokenTransfer(TokenId.fromString(tokenId), AccountId.fromString(fromAccountId), units.negate())
+      .addTokenTransfer(TokenId.fromString(tokenId), AccountId.fromString(toAccountId), units)
+      .setMaxTransactionFee(Hbar.fromTinybars(100000000)), // 1 HBAR max fee
+    'transfer');
+  }
+
+  /**
+   * Call a contract function with an estimated gas limit. A call whose estimate exceeds the
+   * gas ceiling is not submitted.
+   */
+  private async executeContract(contractId: string, functionName: string, functionParameters: ContractFunctionParameters): Promise<TreasuryTransactionResult> {
+    let estimate: GasEstimate;
+    try {
+      estimate = await this.gasEstimator.estimate(contractId, functionName, functionParameters);
+    } catch (error) {
+      logger.error(`❌ ${functionName} not submitted`, { error });
+      return { success: false, functionName, error: error instanceof Error ? error.message : String(error), failure: 'fatal', attempts: 0 };
+    }
+
+    return this.submit(() => new ContractExecuteTransaction()
+      .setContractId(ContractId.fromString(contractId))
+      .setGas(estimate.gas)
+      .setFunction(functionName, functionParameters)
+      .setMaxTransactionFee(this.gasEstimator.maxTransactionFee),
+    functionName);
+  }
+
+  /**
+   * Submit a transaction, retrying retryable failures with a freshly built transaction
+   */
+  private async submit(build: () => ContractExecuteTransaction | TransferTransaction, functionName: string): Promise<TreasuryTransactionResult> {
+    for (let attempt = 1; ; attempt++) {
+      const result = this.scheduler
+        ? await this.submitScheduled(build(), functionName)
+        : await this.submitOnce(build(), functionName);
+      result.attempts = attempt;
+
+      if (result.success || result.failure !== 'retryable') {
+        return result;
+      }
+      if (attempt >= this.retryPolicy.maxAttempts) {
+        logger.error(`❌ ${functionName} still failing after ${attempt} attempt(s): ${result.error}`);
+        return result;
+      }
+
+      const delay = retryDelay(attempt, this.retryPolicy);
+      logger.warn(`🔁 ${functionName} failed with ${result.status ?? 'a retryable error'} - retrying in ${delay}ms (attempt ${attempt + 1} of ${this.retryPolicy.maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Execute a transaction and wait for its receipt. A lost receipt is resolved by looking the
+   * transaction up by ID.
+   */
+  private async submitOnce(transaction: ContractExecuteTransaction | TransferTransaction, functionName: string): Promise<TreasuryTransactionResult> {
+    let frozen: { transactionId: string; validUntil: Date } | undefined;
+    let submitted = false;
+    try {
+      frozen = freezeForJournal(transaction, this.client);
+      this.journal?.submitting({ ...frozen, functionName, scheduled: false });
+
+      submitted = true;
+      const txResponse = await transaction.execute(this.client);
+      logger.info(`⏳ Transaction submitted: ${txResponse.transactionId}`);
+
+      const receipt = await txResponse.getReceipt(this.client);
+      logger.info(`✅ Transaction completed with status: ${receipt.status}`);
+      this.journal?.settled(frozen.transactionId, { state: 'succeeded', status: receipt.status.toString() });
+
+      // Fee and gas are only needed for the run history, so a failed record lookup is not an error
+      let feeTinybars: string | undefined;
+      let gasUsed: string | undefined;
+      try {
+        const record = await txResponse.getRecord(this.client);
+        feeTinybars = record.transactionFee.toTinybars().toString();
+        gasUsed = record.contractFunctionResult?.gasUsed.toString();
+        if (gasUsed) {
+          logger.info(`⛽ ${functionName} used ${gasUsed} of ${gasLimitOf(transaction)} gas, fee ${record.transactionFee.toString()}`);
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Could not fetch the record of ${txResponse.transactionId}`, { error: error instanceof Error ? error.message : String(error) });
+      }
+
+      return {
+        success: true,
+        transactionId: frozen.transactionId,
+        status: receipt.status.toString(),
+        functionName,
+        feeTinybars,
+        gasLimit: gasLimitOf(transaction),
+        gasUsed,
+        attempts: 1
+      };
+    } catch (error) {
+      const { failure, status } = classifyError(error, submitted);
+      const message = error instanceof Error ? error.message : String(error);
+      if (failure === 'ambiguous' && frozen) {
+        return this.resolveAmbiguous(frozen, functionName, message);
+      }
+
+      logger.error(`❌ ${functionName} transaction failed (${failure})`, { error });
+      if (frozen && error instanceof ReceiptStatusError) {
+        this.journal?.settled(frozen.transactionId, { state: 'failed', status });
+      } else if (frozen && error instanceof PrecheckStatusError) {
+        this.journal?.settled(frozen.transactionId, { state: 'not_executed', status });
+      }
+      return {
+        success: false,
+        transactionId: frozen?.transactionId,
+        status,
+        functionName,
+        error: message,
+        failure,
+        gasLimit: gasLimitOf(transaction),
+        attempts: 1
+      };
+    }
+  }
+
+  /**
+   * The transaction may have reached consensus without us seeing the receipt: look it up by ID.
+   * Not executed becomes retryable; an outcome that stays unknown is reported as ambiguous and
+   * left pending in the journal.
+   */
+  private async resolveAmbiguous(
+    frozen: { transactionId: string; validUntil: Date },
+    functionName: string,
+    error: string
+  ): Promise<TreasuryTransactionResult> {
+    const { transactionId } = frozen;
+    logger.warn(`❓ ${functionName} ${transactionId} may have been submitted but has no receipt (${error}) - looking it up`);
+    const outcome = await awaitTransactionOutcome(this.client, transactionId, frozen.validUntil);
+
+    if (!outcome) {
+      logger.error(`❌ Outcome of ${transactionId} is unknown - not retrying`);
+      return { success: false, transactionId, functionName, error: `No receipt and no lookup result for ${transactionId}: ${error}`, failure: 'ambiguous', attempts: 1 };
+    }
+    if (outcome.state === 'not_executed') {
+      this.journal?.settled(transactionId, { state: 'not_executed', status: 'NOT_FOUND_AFTER_VALID_DURATION' });
+      return { success: false, transactionId, functionName, error: `${transactionId} never reached consensus: ${error}`, failure: 'retryable', attempts: 1 };
+    }
+
+    logger.info(`🔎 ${transactionId} reached consensus with ${outcome.status} (from the ${outcome.source})`);
+    const success = outcome.status === 'SUCCESS';
+    this.journal?.settled(transactionId, { state: success ? 'succeeded' : 'failed', status: outcome.status });
+    return success
+      ? { success, transactionId, status: outcome.status, functionName, attempts: 1 }
+      : { success, transactionId, status: outcome.status, functionName, error: `${transactionId} failed with ${outcome.status}`, failure: classifyStatus(outcome.status), attempts: 1 };
+  }
+
+  /**
+   * Schedule a transaction and wait until the schedule executes, is deleted or expires
+   */
+  private async submitScheduled(transaction: ContractExecuteTransaction | TransferTransaction, functionName: string): Promise<TreasuryTransactionResult> {
+    let createTransactionId: string | undefined;
+    try {
+      const outcome = await this.scheduler!.execute(transaction, functionName, submitting => {
+        createTransactionId = submitting.transactionId;
+        this.journal?.submitting(submitting);
+      });
+      const success = outcome.state === 'EXECUTED' && outcome.status === 'SUCCESS';
+      this.journal?.settled(createTransactionId!, settledSchedule(outcome));
+
+      return {
+        success,
+        transactionId: outcome.scheduledTransactionId,
+        status: outcome.status ?? `SCHEDULE_${outcome.state}`,
+        functionName,
+        scheduleId: outcome.scheduleId,
+        feeTinybars: outcome.feeTinybars,
+        gasLimit: gasLimitOf(transaction),
+        gasUsed: outcome.gasUsed,
+        error: success ? undefined : `Schedule ${outcome.scheduleId} ${outcome.state.toLowerCase().replace('_', ' ')}${outcome.status ? ` with status ${outcome.status}` : ''}`,
+        // A schedule that did not execute moved nothing; one that executed and failed will fail again
+        failure: success ? undefined : (outcome.status ? classifyStatus(outcome.status) : 'fatal'),
+        attempts: 1
+      };
+    } catch (error) {
+      // Schedules are settled from the journal (StepJournalRecovery) rather than looked up here
+      const { failure, status } = classifyError(error, createTransactionId !== undefined);
+      logger.error(`❌ Scheduled ${functionName} transaction failed (${failure})`, { error });
+      if (createTransactionId && error instanceof PrecheckStatusError) {
+        this.journal?.settled(createTransactionId, { state: 'not_executed', status });
+      }
+      return {
+        success: false,
+        functionName,
+        status,
+        error: error instanceof Error ? error.message : String(error),
+        failure,
+        attempts: 1
+      };
+    }
+  }
+}
+
+/**
+ * Journal outcome of a schedule: only an executed schedule can have moved funds
+ */
+export function settledSchedule(outcome: ScheduleOutcome): { state: 'succeeded' | 'failed'; status?: string; scheduleId: string; scheduledTransactionId?: string } {
+  return {
+    state: outcome.state === 'EXECUTED' && outcome.status === 'SUCCESS' ? 'succeeded' : 'failed',
+    status: outcome.status ?? `SCHEDULE_${outcome.state}`,
+    scheduleId: outcome.scheduleId,
+    scheduledTransactionId: outcome.scheduledTransactionId
+  };
+}